@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  createArtistCache,
+  getArtistKey,
+  getBandArtists,
+  mergeArtistProfiles,
+} from "./artists";
+import type { ArtistProfile, BandConfig } from "./types";
+
+const SITE = "https://venue.example.com/events";
+const OTHER_SITE = "https://other.example.com/events";
+const NOW = new Date("2099-11-01T12:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const band: BandConfig = {
+  name: "Moongold",
+  genres: ["funk*", { term: "tribute", weight: -1 }],
+  sites: [],
+  websiteConfigs: [
+    {
+      url: SITE,
+      selectors: { event: "article", date: "time", name: "h2" },
+      venue: { name: "The Venue" },
+    },
+  ],
+};
+
+function createProfile(
+  key: string,
+  profile: Partial<ArtistProfile> = {},
+): ArtistProfile {
+  return {
+    key,
+    bio: "",
+    matches: [],
+    score: 0,
+    fetched: NOW.toISOString(),
+    sites: [SITE],
+    ...profile,
+  };
+}
+
+test("getArtistKey uses the canonical artist url or else the name", () => {
+  assert.equal(
+    getArtistKey("https://venue.example.com/artists/horns/?utm_source=x", "x"),
+    "https://venue.example.com/artists/horns",
+  );
+  assert.equal(getArtistKey(null, "The  Horns!"), "name:the horns");
+});
+
+test("the artist cache only reuses bios within the TTL", () => {
+  const url = "https://venue.example.com/artists/horns";
+  const saved = [
+    createProfile(url, {
+      bio: "Funky horns",
+      fetched: new Date(NOW.getTime() - 10 * DAY).toISOString(),
+    }),
+  ];
+
+  const cache = createArtistCache(structuredClone(saved), 30, NOW);
+  assert.equal(cache.get(url, "The Horns", OTHER_SITE)?.bio, "Funky horns");
+  assert.deepEqual(cache.profiles()[0].sites, [SITE, OTHER_SITE]);
+
+  const stale = createArtistCache(structuredClone(saved), 7, NOW);
+  assert.equal(stale.get(url, "The Horns", SITE), undefined);
+  const profile = stale.set(url, " The Horns ", "New bio", OTHER_SITE);
+  assert.deepEqual(profile, {
+    key: url,
+    name: "The Horns",
+    url,
+    bio: "New bio",
+    matches: [],
+    score: 0,
+    fetched: NOW.toISOString(),
+    sites: [SITE, OTHER_SITE],
+  });
+  assert.equal(stale.get(url, null, SITE), profile);
+});
+
+test("mergeArtistProfiles keeps the latest bio and every venue", () => {
+  const older = createProfile("horns", { bio: "old", fetched: "2099-10-01" });
+  const newer = createProfile("horns", {
+    bio: "new",
+    fetched: "2099-10-02",
+    sites: [OTHER_SITE],
+  });
+  assert.deepEqual(mergeArtistProfiles([[newer], [older]]), [
+    { ...newer, sites: [OTHER_SITE, SITE] },
+  ]);
+});
+
+test("getBandArtists lists the artists from the band's venues that match its genres", () => {
+  const artists = getBandArtists(
+    [
+      createProfile("tribute", { bio: "A funk tribute act" }),
+      createProfile("horns", { bio: "Funky horns and funk grooves" }),
+      createProfile("elsewhere", { bio: "Funk", sites: [OTHER_SITE] }),
+      createProfile("folk", { bio: "Folk songs" }),
+    ],
+    band,
+  );
+  assert.deepEqual(
+    artists.map((a) => [a.key, a.score, a.matches]),
+    [["horns", 1, ["funk*"]]],
+  );
+});
@@ -0,0 +1,191 @@
+import chalk from "chalk";
+
+import type {
+  ArtistProfile,
+  BandBaseConfiguration,
+  BandConfig,
+  Nilable,
+} from "./types";
+import { canonicalizeUrl, normalizeEventName } from "./identity";
+import { highlightTerms, scoreRelevance } from "./relevance";
+import { createSnippet, normalizeWhitespace } from "./util";
+import { getVenue } from "./venues";
+
+/**
+ * The number of days an artist bio is reused before it is loaded again.
+ */
+export const DEFAULT_ARTIST_TTL = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The bios of the artists loaded on previous runs and the current one.
+ */
+export interface ArtistCache {
+  /**
+   * Get the artist's bio if it was loaded within the TTL. The site is added to
+   * the venues the artist played.
+   */
+  get(
+    url: Nilable<string>,
+    name: Nilable<string>,
+    site: string,
+  ): ArtistProfile | undefined;
+  /**
+   * Save the bio that was just loaded for the artist.
+   */
+  set(
+    url: Nilable<string>,
+    name: Nilable<string>,
+    bio: string,
+    site: string,
+  ): ArtistProfile;
+  /**
+   * All of the cached artists, including the ones too old to reuse.
+   */
+  profiles(): ArtistProfile[];
+}
+
+/**
+ * Get the key an artist is cached by. Artists are identified by the canonical
+ * url of their page or else by their name.
+ */
+export function getArtistKey(url: Nilable<string>, name: Nilable<string>) {
+  const link = canonicalizeUrl(url);
+  return link ? link : `name:${normalizeEventName(name)}`;
+}
+
+/**
+ * Whether the bio was loaded within the last `ttl` days.
+ */
+export function isFreshProfile(
+  profile: ArtistProfile,
+  ttl = DEFAULT_ARTIST_TTL,
+  now = new Date(),
+) {
+  const age = now.getTime() - new Date(profile.fetched).getTime();
+  return age >= 0 && age <= ttl * DAY;
+}
+
+/**
+ * Create a cache of artist bios from the profiles saved on previous runs.
+ */
+export function createArtistCache(
+  saved: ArtistProfile[] = [],
+  /**
+   * The number of days a bio is reused.
+   */
+  ttl = DEFAULT_ARTIST_TTL,
+  now = new Date(),
+): ArtistCache {
+  const profiles = new Map(saved.map((p) => [p.key, p]));
+
+  const addSite = (profile: ArtistProfile, site: string) => {
+    if (!profile.sites.includes(site)) profile.sites.push(site);
+    return profile;
+  };
+
+  return {
+    get(url, name, site) {
+      const profile = profiles.get(getArtistKey(url, name));
+      if (!profile || !isFreshProfile(profile, ttl, now)) return undefined;
+      return addSite(profile, site);
+    },
+    set(url, name, bio, site) {
+      const key = getArtistKey(url, name);
+      const previous = profiles.get(key);
+      const profile: ArtistProfile = {
+        key,
+        name: normalizeWhitespace(name) || previous?.name,
+        url: canonicalizeUrl(url) || undefined,
+        bio,
+        matches: [],
+        score: 0,
+        fetched: now.toISOString(),
+        sites: [...(previous?.sites ?? [])],
+      };
+      if (!profile.name) delete profile.name;
+      if (!profile.url) delete profile.url;
+      profiles.set(key, profile);
+      return addSite(profile, site);
+    },
+    profiles() {
+      return [...profiles.values()];
+    },
+  };
+}
+
+/**
+ * Combine the profiles saved for several bands, keeping the latest bio of each
+ * artist along with every venue they played.
+ */
+export function mergeArtistProfiles(lists: ArtistProfile[][]) {
+  const profiles = new Map<string, ArtistProfile>();
+  for (const profile of lists.flat()) {
+    const other = profiles.get(profile.key);
+    const latest = !other || profile.fetched > other.fetched ? profile : other;
+    profiles.set(profile.key, {
+      ...latest,
+      sites: [...new Set([...(other?.sites ?? []), ...profile.sites])],
+    });
+  }
+  return [...profiles.values()];
+}
+
+/**
+ * Score the artists' bios against the band's genres.
+ */
+export function scoreArtists(
+  profiles: ArtistProfile[],
+  band: Pick<BandBaseConfiguration, "genres" | "scorer">,
+): ArtistProfile[] {
+  const scorer = band.scorer ?? scoreRelevance;
+  return profiles.map((profile) => {
+    const { score, matches } = scorer(profile.bio, band.genres);
+    return { ...profile, score, matches };
+  });
+}
+
+/**
+ * Get the artists that played the band's venues and whose bios match the
+ * band's genres, best match first.
+ */
+export function getBandArtists(profiles: ArtistProfile[], band: BandConfig) {
+  const sites = new Set(band.websiteConfigs.map((c) => c.url));
+  return scoreArtists(
+    profiles.filter((p) => p.sites.some((site) => sites.has(site))),
+    band,
+  )
+    .filter((p) => p.score >= (band.minScore ?? 1))
+    .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+}
+
+/**
+ * Console print the artists along with the venues they played.
+ */
+export function printArtists(band: BandConfig, profiles: ArtistProfile[]) {
+  if (!profiles.length) {
+    console.log("No artists matching the band's genres found");
+    return;
+  }
+
+  console.log(
+    `Found ${chalk.green(profiles.length)} artists matching the band's genres:`,
+  );
+  for (const profile of profiles) {
+    const venues = profile.sites.map(
+      (site) => getVenue(band, site)?.name ?? site,
+    );
+    const bio = normalizeWhitespace(profile.bio);
+    console.log(`  Artist: ${chalk.green(profile.name || profile.key)}`);
+    if (profile.url) console.log(`    Link: ${chalk.red(profile.url)}`);
+    console.log(`    Played: ${chalk.blue(venues.join(", "))}`);
+    console.log(
+      `    Score: ${chalk.magenta(profile.score)} (${profile.matches.join(", ")})`,
+    );
+    console.log(
+      `    Bio: ${highlightTerms(createSnippet(bio, 0, 0, 200), band.genres, (match) => chalk.bold.blue(match))}`,
+    );
+    console.log("");
+  }
+}
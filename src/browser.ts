@@ -0,0 +1,164 @@
+import { mkdir } from "fs/promises";
+import path from "node:path";
+import puppeteer, {
+  Browser,
+  EvaluateFunc,
+  EvaluateFuncWith,
+  GoToOptions,
+  HTTPResponse,
+  Page,
+  WaitForSelectorOptions,
+} from "puppeteer";
+
+import type { WebsiteConfig } from "./types";
+import { createHttpPage } from "./http-page";
+import { getReusablePage, PageCache } from "./page-cache";
+
+/**
+ * A function that prepares a page before it is used for scraping (ex. to
+ * record or replay the page's network traffic).
+ */
+export type PageHook = (page: Page) => Promise<void>;
+
+/**
+ * The part of a puppeteer page used to scrape the event pages. Pages from the
+ * HTTP engine (see `createHttpPage`) implement the same methods.
+ */
+export interface ScrapePage {
+  goto(
+    url: string,
+    options?: GoToOptions,
+  ): Promise<Pick<HTTPResponse, "status"> | null>;
+  url(): string;
+  $$eval<
+    Params extends unknown[],
+    Func extends EvaluateFuncWith<Element[], Params>,
+  >(
+    selector: string,
+    pageFunction: Func,
+    ...args: Params
+  ): Promise<Awaited<ReturnType<Func>>>;
+  $eval<
+    Params extends unknown[],
+    Func extends EvaluateFuncWith<Element, Params>,
+  >(
+    selector: string,
+    pageFunction: Func,
+    ...args: Params
+  ): Promise<Awaited<ReturnType<Func>>>;
+  evaluate<Params extends unknown[], Func extends EvaluateFunc<Params>>(
+    pageFunction: Func,
+    ...args: Params
+  ): Promise<Awaited<ReturnType<Func>>>;
+  waitForSelector(
+    selector: string,
+    options?: WaitForSelectorOptions,
+  ): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+const pageHooks = new WeakMap<Browser, PageHook[]>();
+const screenshotDirs = new WeakMap<Browser, string>();
+
+/**
+ * Launch the browser used for scraping.
+ */
+export function launchBrowser(debug = false) {
+  return puppeteer.launch({
+    headless: !debug,
+    devtools: debug,
+    protocolTimeout: 1000000,
+  });
+}
+
+/**
+ * Register a hook that will be run on every page opened with `openPage`.
+ */
+export function addPageHook(browser: Browser, hook: PageHook) {
+  pageHooks.set(browser, [...(pageHooks.get(browser) ?? []), hook]);
+}
+
+/**
+ * Open a new browser page and prepare it with any registered page hooks.
+ */
+export async function openPage(browser: Browser) {
+  const page = await browser.newPage();
+  for (const hook of pageHooks.get(browser) ?? []) {
+    await hook(page);
+  }
+  return page;
+}
+
+/**
+ * Whether the site is scraped with the browser. Only sites using the `http`
+ * engine are loaded without it.
+ */
+export function usesBrowser(site: Pick<WebsiteConfig, "engine">) {
+  return site.engine !== "http";
+}
+
+/**
+ * Whether the page is a browser page rather than a page from the HTTP engine.
+ */
+export function isBrowserPage(page: ScrapePage): page is Page {
+  return "screenshot" in page;
+}
+
+/**
+ * Open a page to scrape the site with the site's engine. The browser is only
+ * needed for sites using the browser engine. Pages in the cache (and every page
+ * when the cache is offline) are read with the HTTP engine instead.
+ */
+export async function openSitePage(
+  browser: Browser | undefined,
+  site: Pick<WebsiteConfig, "url" | "engine">,
+  timeout = 10000,
+  cache?: PageCache,
+  /**
+   * The url the page will load, to check whether it is cached.
+   */
+  url?: string,
+): Promise<ScrapePage> {
+  const cached = cache && url ? await getReusablePage(cache, url) : undefined;
+  if (!usesBrowser(site) || cache?.offline || cached) {
+    return createHttpPage(timeout, cache);
+  }
+  if (!browser) {
+    throw new Error(
+      `${site.url} uses the browser engine but none was launched`,
+    );
+  }
+  return openPage(browser);
+}
+
+/**
+ * Save a screenshot of each page that fails to load to the directory.
+ */
+export function setScreenshotDir(browser: Browser, dir: string) {
+  screenshotDirs.set(browser, dir);
+}
+
+/**
+ * Save a screenshot of the page if a screenshot directory was set. Returns the
+ * screenshot file or `undefined` when no screenshot was taken.
+ */
+export async function saveScreenshot(page: ScrapePage) {
+  // Pages from the HTTP engine have nothing to take a screenshot of.
+  if (!isBrowserPage(page)) return undefined;
+
+  const dir = screenshotDirs.get(page.browser());
+  if (!dir) return undefined;
+
+  try {
+    await mkdir(dir, { recursive: true });
+    const host = new URL(page.url()).hostname || "blank";
+    const file = path.join(
+      dir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${host}.png`,
+    );
+    await page.screenshot({ path: file as `${string}.png`, fullPage: true });
+    return file;
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,298 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  getBandConfigs,
+  parseBandConfig,
+  parseWebsiteConfig,
+} from "./config-loader";
+
+/**
+ * Get the problems listed in the error thrown for an invalid config.
+ */
+function getIssues(parse: () => unknown) {
+  try {
+    parse();
+  } catch (e) {
+    return String((e as Error).message)
+      .split("\n")
+      .slice(1)
+      .map((line) => line.replace(/^ {2}- /, ""));
+  }
+  assert.fail("The config should be invalid");
+}
+
+test("parseBandConfig reads a valid band config", () => {
+  assert.deepEqual(
+    parseBandConfig(
+      {
+        name: "Moongold",
+        genres: [
+          "funk*",
+          { regex: "go-?go", flags: "i" },
+          { term: "tribute", weight: -1 },
+          { term: { regex: "^DJ" }, caseSensitive: true },
+        ],
+        sites: ["unionStage"],
+        filter: ["Open Mic", { regex: "karaoke", flags: "i" }],
+        minScore: 2,
+        notify: [{ type: "file", path: "gigs.log" }],
+      },
+      "moongold.yaml",
+    ),
+    {
+      name: "Moongold",
+      genres: [
+        "funk*",
+        /go-?go/i,
+        {
+          term: "tribute",
+          weight: -1,
+          caseSensitive: undefined,
+          partial: undefined,
+        },
+        {
+          term: /^DJ/,
+          weight: undefined,
+          caseSensitive: true,
+          partial: undefined,
+        },
+      ],
+      sites: ["unionStage"],
+      filter: ["Open Mic", /karaoke/i],
+      minScore: 2,
+      notify: [{ type: "file", path: "gigs.log" }],
+    },
+  );
+  // The sites are optional.
+  assert.deepEqual(parseBandConfig({ name: "Moongold", genres: [] }, "x"), {
+    name: "Moongold",
+    genres: [],
+    sites: [],
+  });
+});
+
+test("parseBandConfig lists every problem with the config", () => {
+  const issues = getIssues(() =>
+    parseBandConfig(
+      {
+        name: "",
+        genres: [
+          { term: "funk", weight: "high", loud: true },
+          { regex: "(unclosed" },
+        ],
+        sites: "unionStage",
+        minScore: "1",
+        notify: [{ type: "pager" }],
+      },
+      "moongold.yaml",
+    ),
+  );
+  // The rest of the message comes from the JavaScript engine.
+  assert.match(
+    issues.splice(3, 1)[0],
+    /^genres\[1\] is not a valid regular expression: SyntaxError/,
+  );
+  assert.deepEqual(issues, [
+    "name should be a non-empty string but was a string",
+    "genres[0].loud is not a valid genre option",
+    "genres[0].weight should be a number but was a string",
+    "sites should be a list but was a string",
+    "minScore should be a number",
+    "notify[0].type should be one of email, webhook, slack, discord, file or command",
+  ]);
+  assert.throws(() => parseBandConfig([], "moongold.yaml"), {
+    message:
+      /^Invalid config moongold\.yaml:\n {2}- config should be an object but was an array/,
+  });
+});
+
+test("parseWebsiteConfig reads the selectors, venue and date format", () => {
+  assert.deepEqual(
+    parseWebsiteConfig(
+      {
+        url: "https://www.example.com/events",
+        selectors: {
+          event: "article",
+          date: { css: "time", attribute: "datetime" },
+          name: { xpath: ".//h3/text()", regex: "^(.*?) - Live$" },
+          detailLink: { jsonLd: "offers.url" },
+          description: [{ domain: "example.com", description: "main" }],
+        },
+        venue: {
+          name: "The Example Room",
+          capacity: 250,
+          booking: { email: "booking@example.com" },
+        },
+        dateFormat: { order: "dmy", pattern: { regex: "(\\d+)/(\\d+)" } },
+      },
+      "example.yaml",
+    ),
+    {
+      url: "https://www.example.com/events",
+      selectors: {
+        event: "article",
+        date: {
+          css: "time",
+          xpath: undefined,
+          attribute: "datetime",
+          jsonLd: undefined,
+        },
+        name: {
+          css: undefined,
+          xpath: ".//h3/text()",
+          attribute: undefined,
+          jsonLd: undefined,
+          regex: /^(.*?) - Live$/,
+        },
+        loadMoreLink: undefined,
+        loadMoreLoader: undefined,
+        nextPageLink: undefined,
+        detailLink: {
+          css: undefined,
+          xpath: undefined,
+          attribute: undefined,
+          jsonLd: "offers.url",
+        },
+        description: [
+          {
+            domain: "example.com",
+            description: "main",
+            lineup: undefined,
+            artistDescription: undefined,
+          },
+        ],
+      },
+      venue: {
+        name: "The Example Room",
+        address: undefined,
+        neighborhood: undefined,
+        capacity: 250,
+        booking: {
+          name: undefined,
+          email: "booking@example.com",
+          formUrl: undefined,
+          selector: undefined,
+          page: undefined,
+        },
+      },
+      dateFormat: { order: "dmy", pattern: /(\d+)\/(\d+)/ },
+    },
+  );
+});
+
+test("parseWebsiteConfig reads serialized regexes in field selectors", () => {
+  const { selectors } = parseWebsiteConfig(
+    {
+      url: "https://www.example.com/events",
+      selectors: {
+        event: "article",
+        date: { css: "time", regex: { regex: "^(\\w+ \\d+)", flags: "i" } },
+        name: { css: "h3", regex: "^(.*?) - Live$" },
+      },
+    },
+    "example.yaml",
+  );
+  assert.deepEqual(
+    [selectors?.date, selectors?.name].map(
+      (field) => typeof field === "object" && field.regex,
+    ),
+    [/^(\w+ \d+)/i, /^(.*?) - Live$/],
+  );
+});
+
+test("parseWebsiteConfig rejects unknown options and wrong types", () => {
+  assert.deepEqual(
+    getIssues(() =>
+      parseWebsiteConfig(
+        {
+          url: 42,
+          selectors: {
+            event: "article",
+            date: { css: "time", xpath: ".//time", format: "iso" },
+            name: ["h3"],
+          },
+          venue: { name: "The Example Room", capacity: "250", phone: "555" },
+          dateFormat: { order: "ydm" },
+        },
+        "example.yaml",
+      ),
+    ),
+    [
+      "url should be a non-empty string but was a number",
+      "selectors.date.format is not a valid selector option",
+      "selectors.date should have either a css or an xpath selector",
+      "selectors.name should be a non-empty string but was an array",
+      "venue.phone is not a valid venue option",
+      "venue.capacity should be a number but was a string",
+      "dateFormat.order should be one of mdy, dmy or ymd",
+    ],
+  );
+});
+
+test("parseWebsiteConfig only needs selectors without structured data", () => {
+  assert.deepEqual(
+    parseWebsiteConfig(
+      { url: "https://www.example.com/events", structuredData: true },
+      "example.yaml",
+    ),
+    { url: "https://www.example.com/events", structuredData: true },
+  );
+  assert.deepEqual(
+    getIssues(() =>
+      parseWebsiteConfig(
+        { url: "https://www.example.com/events", structuredData: "yes" },
+        "example.yaml",
+      ),
+    ),
+    [
+      "structuredData should be true or false",
+      "selectors should be an object but was a undefined",
+      "selectors.event should be a non-empty string but was a undefined",
+      "selectors.date should be a non-empty string but was a undefined",
+      "selectors.name should be a non-empty string but was a undefined",
+    ],
+  );
+});
+
+test("parseWebsiteConfig checks the engine can load the site", () => {
+  const selectors = { event: "article", date: "time", name: "h3" };
+  assert.equal(
+    parseWebsiteConfig(
+      { url: "https://www.example.com/events", engine: "http", selectors },
+      "example.yaml",
+    ).engine,
+    "http",
+  );
+  assert.deepEqual(
+    getIssues(() =>
+      parseWebsiteConfig(
+        { url: "https://www.example.com/events", engine: "curl", selectors },
+        "example.yaml",
+      ),
+    ),
+    ["engine should be either browser or http"],
+  );
+  assert.deepEqual(
+    getIssues(() =>
+      parseWebsiteConfig(
+        {
+          url: "https://www.example.com/events",
+          engine: "http",
+          selectors: { ...selectors, loadMoreLink: "button.more" },
+        },
+        "example.yaml",
+      ),
+    ),
+    [
+      "selectors.loadMoreLink needs the browser engine, use selectors.nextPageLink instead",
+    ],
+  );
+});
+
+test("getBandConfigs doesn't combine --all with other bands", async () => {
+  await assert.rejects(
+    getBandConfigs([], { configFile: "band.yaml", all: true }),
+    { message: "--all can't be combined with band names or --config" },
+  );
+});
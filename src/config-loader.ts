@@ -0,0 +1,655 @@
+import { constants, existsSync } from "fs";
+import { access, readdir, readFile } from "fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+
+import { rateLimits } from "./config/rate-limits";
+import { websiteConfig } from "./config/sites";
+import type {
+  BandBaseConfiguration,
+  BandConfig,
+  DateFormat,
+  FieldSelector,
+  FieldSelectorConfig,
+  NotifierConfig,
+  RateLimit,
+  RateLimits,
+  RelevanceTerm,
+  Selectors,
+  Venue,
+  WebsiteConfig,
+} from "./types";
+
+/**
+ * The directory containing the `bands` and `sites` config folders.
+ */
+export const DEFAULT_CONFIG_DIR = "./config";
+
+const BANDS_DIR = "bands";
+const SITES_DIR = "sites";
+const RATE_LIMITS_FILE = "rate-limits";
+const CONFIG_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * A regular expression written in a form that can be stored in JSON or YAML
+ * (ex. `{ regex: "tribute", flags: "i" }`).
+ */
+export interface SerializedRegExp {
+  regex: string;
+  flags?: string;
+}
+
+/**
+ * The list of problems found while validating a config file.
+ */
+type Issues = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return `a ${typeof value}`;
+}
+
+function parseString(value: unknown, at: string, issues: Issues) {
+  if (typeof value === "string" && value.trim()) return value;
+  issues.push(`${at} should be a non-empty string but was ${describe(value)}`);
+  return "";
+}
+
+function parseOptionalString(value: unknown, at: string, issues: Issues) {
+  return value == null ? undefined : parseString(value, at, issues);
+}
+
+function parseArray<T>(
+  value: unknown,
+  at: string,
+  issues: Issues,
+  parseItem: (item: unknown, at: string, issues: Issues) => T,
+): T[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${at} should be a list but was ${describe(value)}`);
+    return [];
+  }
+  return value.map((item, i) => parseItem(item, `${at}[${i}]`, issues));
+}
+
+function parseObject(value: unknown, at: string, issues: Issues) {
+  if (isObject(value)) return value;
+  issues.push(`${at} should be an object but was ${describe(value)}`);
+  return {};
+}
+
+function isSerializedRegExp(value: unknown): value is SerializedRegExp {
+  return isObject(value) && "regex" in value;
+}
+
+function parseRegExp(value: unknown, at: string, issues: Issues) {
+  const { regex, flags } = parseObject(value, at, issues);
+  const source = parseString(regex, `${at}.regex`, issues);
+  const f = parseOptionalString(flags, `${at}.flags`, issues);
+  try {
+    return new RegExp(source, f);
+  } catch (e) {
+    issues.push(`${at} is not a valid regular expression: ${e}`);
+    return new RegExp(source.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  }
+}
+
+function parseStringOrRegExp(value: unknown, at: string, issues: Issues) {
+  if (value instanceof RegExp) return value;
+  return isSerializedRegExp(value)
+    ? parseRegExp(value, at, issues)
+    : parseString(value, at, issues);
+}
+
+function parseRelevanceTerm(
+  value: unknown,
+  at: string,
+  issues: Issues,
+): RelevanceTerm {
+  if (!isObject(value) || isSerializedRegExp(value)) {
+    return parseStringOrRegExp(value, at, issues);
+  }
+
+  const { term, weight, caseSensitive, partial, ...rest } = value;
+  for (const key of Object.keys(rest)) {
+    issues.push(`${at}.${key} is not a valid genre option`);
+  }
+  if (weight != null && typeof weight !== "number") {
+    issues.push(`${at}.weight should be a number but was ${describe(weight)}`);
+  }
+  for (const [key, option] of Object.entries({ caseSensitive, partial })) {
+    if (option != null && typeof option !== "boolean") {
+      issues.push(`${at}.${key} should be true or false`);
+    }
+  }
+
+  return {
+    term: parseStringOrRegExp(term, `${at}.term`, issues),
+    weight: weight as number | undefined,
+    caseSensitive: caseSensitive as boolean | undefined,
+    partial: partial as boolean | undefined,
+  };
+}
+
+function parseOptionalNumber(value: unknown, at: string, issues: Issues) {
+  if (value == null) return undefined;
+  if (typeof value === "number") return value;
+  issues.push(`${at} should be a number but was ${describe(value)}`);
+  return undefined;
+}
+
+function parseOptionalBoolean(value: unknown, at: string, issues: Issues) {
+  if (value == null) return undefined;
+  if (typeof value === "boolean") return value;
+  issues.push(`${at} should be true or false`);
+  return undefined;
+}
+
+function parseNotifierConfig(
+  value: unknown,
+  at: string,
+  issues: Issues,
+): NotifierConfig {
+  const n = parseObject(value, at, issues);
+  switch (n.type) {
+    case "email":
+      return {
+        type: n.type,
+        host: parseString(n.host, `${at}.host`, issues),
+        port: parseOptionalNumber(n.port, `${at}.port`, issues),
+        secure: parseOptionalBoolean(n.secure, `${at}.secure`, issues),
+        user: parseOptionalString(n.user, `${at}.user`, issues),
+        passwordEnv: parseOptionalString(
+          n.passwordEnv,
+          `${at}.passwordEnv`,
+          issues,
+        ),
+        from: parseString(n.from, `${at}.from`, issues),
+        to: Array.isArray(n.to)
+          ? parseArray(n.to, `${at}.to`, issues, parseString)
+          : parseString(n.to, `${at}.to`, issues),
+        subject: parseOptionalString(n.subject, `${at}.subject`, issues),
+      };
+    case "webhook": {
+      const headers =
+        n.headers == null
+          ? undefined
+          : parseObject(n.headers, `${at}.headers`, issues);
+      return {
+        type: n.type,
+        url: parseString(n.url, `${at}.url`, issues),
+        headers:
+          headers &&
+          Object.fromEntries(
+            Object.entries(headers).map(([key, header]) => [
+              key,
+              parseString(header, `${at}.headers.${key}`, issues),
+            ]),
+          ),
+      };
+    }
+    case "slack":
+    case "discord":
+      return { type: n.type, url: parseString(n.url, `${at}.url`, issues) };
+    case "file":
+      return { type: n.type, path: parseString(n.path, `${at}.path`, issues) };
+    case "command":
+      return {
+        type: n.type,
+        command: parseString(n.command, `${at}.command`, issues),
+      };
+    default:
+      issues.push(
+        `${at}.type should be one of email, webhook, slack, discord, file or command`,
+      );
+      return { type: "file", path: "" };
+  }
+}
+
+function throwIfInvalid(issues: Issues, source: string) {
+  if (issues.length) {
+    throw new Error(
+      `Invalid config ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+  }
+}
+
+/**
+ * Validate the data read from a band config file and convert any serialized
+ * regular expressions.
+ */
+export function parseBandConfig(
+  data: unknown,
+  source: string,
+): BandBaseConfiguration {
+  const issues: Issues = [];
+  const config = parseObject(data, "config", issues);
+
+  const band: BandBaseConfiguration = {
+    name: parseString(config.name, "name", issues),
+    genres: parseArray(config.genres, "genres", issues, parseRelevanceTerm),
+    sites: parseArray(config.sites ?? [], "sites", issues, parseString),
+  };
+  if (config.filter != null) {
+    band.filter = parseArray(
+      config.filter,
+      "filter",
+      issues,
+      parseStringOrRegExp,
+    );
+  }
+  if (config.minScore != null) {
+    if (typeof config.minScore === "number") band.minScore = config.minScore;
+    else issues.push(`minScore should be a number`);
+  }
+  if (config.notify != null) {
+    band.notify = parseArray(
+      config.notify,
+      "notify",
+      issues,
+      parseNotifierConfig,
+    );
+  }
+
+  throwIfInvalid(issues, source);
+  return band;
+}
+
+function parseDateFormat(
+  value: unknown,
+  at: string,
+  issues: Issues,
+): DateFormat {
+  const { order, pattern } = parseObject(value, at, issues);
+  const format: DateFormat = {};
+  if (order != null) {
+    if (order === "mdy" || order === "dmy" || order === "ymd") {
+      format.order = order;
+    } else {
+      issues.push(`${at}.order should be one of mdy, dmy or ymd`);
+    }
+  }
+  if (pattern != null) {
+    format.pattern = parseRegExp(pattern, `${at}.pattern`, issues);
+  }
+  return format;
+}
+
+/**
+ * Parse a selector field that is either a CSS selector or a `FieldSelector`
+ * object. The `regex` can be a pattern string or a serialized regex.
+ */
+function parseFieldSelector(
+  value: unknown,
+  at: string,
+  issues: Issues,
+): FieldSelectorConfig {
+  if (!isObject(value)) return parseString(value, at, issues);
+
+  const { css, xpath, attribute, jsonLd, regex, ...rest } = value;
+  for (const key of Object.keys(rest)) {
+    issues.push(`${at}.${key} is not a valid selector option`);
+  }
+  if (css != null && xpath != null) {
+    issues.push(`${at} should have either a css or an xpath selector`);
+  }
+
+  const selector: FieldSelector = {
+    css: parseOptionalString(css, `${at}.css`, issues),
+    xpath: parseOptionalString(xpath, `${at}.xpath`, issues),
+    attribute: parseOptionalString(attribute, `${at}.attribute`, issues),
+    jsonLd: parseOptionalString(jsonLd, `${at}.jsonLd`, issues),
+  };
+  if (regex != null) {
+    selector.regex = isObject(regex)
+      ? parseRegExp(regex, `${at}.regex`, issues)
+      : parseRegExp({ regex }, at, issues);
+  }
+  return selector;
+}
+
+function parseSelectors(value: unknown, at: string, issues: Issues) {
+  const s = parseObject(value, at, issues);
+  const selectors: Selectors = {
+    event: parseString(s.event, `${at}.event`, issues),
+    date: parseFieldSelector(s.date, `${at}.date`, issues),
+    name: parseFieldSelector(s.name, `${at}.name`, issues),
+    loadMoreLink: parseOptionalString(
+      s.loadMoreLink,
+      `${at}.loadMoreLink`,
+      issues,
+    ),
+    loadMoreLoader: parseOptionalString(
+      s.loadMoreLoader,
+      `${at}.loadMoreLoader`,
+      issues,
+    ),
+    nextPageLink: parseOptionalString(
+      s.nextPageLink,
+      `${at}.nextPageLink`,
+      issues,
+    ),
+  };
+
+  if (s.detailLink == null) return selectors;
+
+  return {
+    ...selectors,
+    detailLink: parseFieldSelector(s.detailLink, `${at}.detailLink`, issues),
+    description: parseArray(
+      s.description,
+      `${at}.description`,
+      issues,
+      (item, at, issues) => {
+        const d = parseObject(item, at, issues);
+        return {
+          domain: parseString(d.domain, `${at}.domain`, issues),
+          description: parseString(d.description, `${at}.description`, issues),
+          lineup: parseOptionalString(d.lineup, `${at}.lineup`, issues),
+          artistDescription: parseOptionalString(
+            d.artistDescription,
+            `${at}.artistDescription`,
+            issues,
+          ),
+        };
+      },
+    ),
+  };
+}
+
+function parseVenue(value: unknown, at: string, issues: Issues): Venue {
+  const { name, address, neighborhood, capacity, booking, ...rest } =
+    parseObject(value, at, issues);
+  for (const key of Object.keys(rest)) {
+    issues.push(`${at}.${key} is not a valid venue option`);
+  }
+
+  const venue: Venue = {
+    name: parseOptionalString(name, `${at}.name`, issues),
+    address: parseOptionalString(address, `${at}.address`, issues),
+    neighborhood: parseOptionalString(
+      neighborhood,
+      `${at}.neighborhood`,
+      issues,
+    ),
+    capacity: parseOptionalNumber(capacity, `${at}.capacity`, issues),
+  };
+  if (booking != null) {
+    const b = parseObject(booking, `${at}.booking`, issues);
+    venue.booking = {
+      name: parseOptionalString(b.name, `${at}.booking.name`, issues),
+      email: parseOptionalString(b.email, `${at}.booking.email`, issues),
+      formUrl: parseOptionalString(b.formUrl, `${at}.booking.formUrl`, issues),
+      selector: parseOptionalString(
+        b.selector,
+        `${at}.booking.selector`,
+        issues,
+      ),
+      page: parseOptionalString(b.page, `${at}.booking.page`, issues),
+    };
+  }
+  return venue;
+}
+
+/**
+ * Validate the data read from a website config file and convert any serialized
+ * regular expressions.
+ */
+export function parseWebsiteConfig(
+  data: unknown,
+  source: string,
+): WebsiteConfig {
+  const issues: Issues = [];
+  const config = parseObject(data, "config", issues);
+
+  const site: WebsiteConfig = {
+    url: parseString(config.url, "url", issues),
+  };
+  const structuredData = parseOptionalBoolean(
+    config.structuredData,
+    "structuredData",
+    issues,
+  );
+  if (structuredData) site.structuredData = true;
+  // Structured data sites only need selectors as a fallback.
+  if (config.selectors != null || !structuredData) {
+    site.selectors = parseSelectors(config.selectors, "selectors", issues);
+  }
+  if (config.venue != null) {
+    site.venue = parseVenue(config.venue, "venue", issues);
+  }
+  if (config.dateFormat != null) {
+    site.dateFormat = parseDateFormat(config.dateFormat, "dateFormat", issues);
+  }
+  if (config.engine != null) {
+    if (config.engine === "browser" || config.engine === "http") {
+      site.engine = config.engine;
+    } else {
+      issues.push("engine should be either browser or http");
+    }
+  }
+  // Clicking the load more link needs the page's scripts.
+  if (site.engine === "http" && site.selectors?.loadMoreLink) {
+    issues.push(
+      "selectors.loadMoreLink needs the browser engine, use selectors.nextPageLink instead",
+    );
+  }
+
+  throwIfInvalid(issues, source);
+  return site;
+}
+
+function parseRateLimit(value: unknown, at: string, issues: Issues) {
+  const { concurrency, delay, ...rest } = parseObject(value, at, issues);
+  for (const key of Object.keys(rest)) {
+    issues.push(`${at}.${key} is not a valid rate limit option`);
+  }
+
+  const limit: RateLimit = {};
+  for (const [key, option] of Object.entries({ concurrency, delay })) {
+    if (option == null) continue;
+    if (typeof option === "number" && option >= 0) {
+      limit[key as keyof RateLimit] = option;
+    } else {
+      issues.push(`${at}.${key} should be a positive number`);
+    }
+  }
+  return limit;
+}
+
+/**
+ * Validate the data read from a rate limits config file.
+ */
+export function parseRateLimits(data: unknown, source: string): RateLimits {
+  const issues: Issues = [];
+  const config = parseObject(data, "config", issues);
+
+  const limits = Object.fromEntries(
+    Object.entries(config).map(([domain, limit]) => [
+      domain,
+      parseRateLimit(limit, domain, issues),
+    ]),
+  );
+
+  throwIfInvalid(issues, source);
+  return limits;
+}
+
+/**
+ * Read a JSON or YAML config file.
+ */
+export async function readConfigFile(file: string): Promise<unknown> {
+  const data = await readFile(file, "utf-8");
+  const ext = path.extname(file).toLowerCase();
+  try {
+    return ext === ".json" ? JSON.parse(data) : YAML.parse(data);
+  } catch (e) {
+    throw new Error(`Unable to parse config ${file}: ${e}`);
+  }
+}
+
+/**
+ * List the config files in the given directory keyed by their file name
+ * without the extension.
+ */
+async function findConfigFiles(dir: string) {
+  let files: string[] = [];
+  try {
+    await access(dir, constants.F_OK);
+    files = await readdir(dir);
+  } catch (e) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    files
+      .filter((f) => CONFIG_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+      .map((f) => [path.basename(f, path.extname(f)), path.join(dir, f)]),
+  );
+}
+
+/**
+ * Load the built in website configs along with any website config files in the
+ * `sites` folder of the config directory. Config files take precedence over
+ * the built in configs with the same name.
+ */
+export async function loadWebsiteConfigs(configDir = DEFAULT_CONFIG_DIR) {
+  const files = await findConfigFiles(path.join(configDir, SITES_DIR));
+  const sites: Record<string, WebsiteConfig> = { ...websiteConfig };
+
+  for (const [name, file] of Object.entries(files)) {
+    sites[name] = parseWebsiteConfig(await readConfigFile(file), file);
+  }
+
+  return sites;
+}
+
+/**
+ * Load the built in per-domain rate limits along with the domains in the
+ * `rate-limits` file of the config directory.
+ */
+export async function loadRateLimits(configDir = DEFAULT_CONFIG_DIR) {
+  const file = CONFIG_EXTENSIONS.map((ext) =>
+    path.join(configDir, `${RATE_LIMITS_FILE}${ext}`),
+  ).find((f) => existsSync(f));
+  if (!file) return { ...rateLimits };
+
+  return {
+    ...rateLimits,
+    ...parseRateLimits(await readConfigFile(file), file),
+  };
+}
+
+/**
+ * Load a band config file.
+ */
+export async function loadBandConfigFile(file: string) {
+  return parseBandConfig(await readConfigFile(file), file);
+}
+
+/**
+ * Find the config file for the band in the `bands` folder of the config
+ * directory. The band can be the file name or the `name` in the config.
+ */
+async function findBandConfigFile(band: string, configDir: string) {
+  const files = await findConfigFiles(path.join(configDir, BANDS_DIR));
+  const key = band.toLowerCase();
+
+  const byFileName = Object.entries(files).find(
+    ([name]) => name.toLowerCase() === key,
+  );
+  if (byFileName) return byFileName[1];
+
+  for (const file of Object.values(files)) {
+    const data = await readConfigFile(file);
+    if (isObject(data) && String(data.name).toLowerCase() === key) return file;
+  }
+
+  throw new Error(
+    `No config found for band ${band} in ${path.join(configDir, BANDS_DIR)}`,
+  );
+}
+
+/**
+ * Combine the band config with the website configs for each of its sites.
+ */
+export function configFactory(
+  band: BandBaseConfiguration,
+  sites: Record<string, WebsiteConfig>,
+): BandConfig {
+  return {
+    ...band,
+    websiteConfigs: band.sites
+      .map((website) => {
+        const site = sites[website];
+        if (!site)
+          console.warn(
+            `Unable to find ${band.name} website config for ${website}`,
+          );
+        return site;
+      })
+      .filter((c) => !!c),
+  };
+}
+
+/**
+ * Load the config for the specified band either from the given config file or
+ * by searching the config directory.
+ */
+export async function getBandConfig(
+  band: string | undefined,
+  {
+    configFile,
+    configDir = DEFAULT_CONFIG_DIR,
+  }: { configFile?: string; configDir?: string } = {},
+) {
+  if (!configFile && !band) {
+    throw new Error("Specify a band name or a config file with --config");
+  }
+
+  const file = configFile ?? (await findBandConfigFile(band!, configDir));
+  const config = await loadBandConfigFile(file);
+  return configFactory(config, await loadWebsiteConfigs(configDir));
+}
+
+/**
+ * Load the configs for several bands at once. When `all` is set, every band in
+ * the config directory is loaded (and no bands or config file can be given).
+ */
+export async function getBandConfigs(
+  bands: string[],
+  {
+    configFile,
+    configDir = DEFAULT_CONFIG_DIR,
+    all = false,
+  }: { configFile?: string; configDir?: string; all?: boolean } = {},
+) {
+  if (all && (configFile || bands.length)) {
+    throw new Error("--all can't be combined with band names or --config");
+  }
+  const files = all
+    ? Object.values(await findConfigFiles(path.join(configDir, BANDS_DIR)))
+    : [
+        ...(configFile ? [configFile] : []),
+        ...(await Promise.all(
+          bands.map((band) => findBandConfigFile(band, configDir)),
+        )),
+      ];
+  if (!files.length) {
+    throw new Error(
+      "Specify one or more band names, --all or a config file with --config",
+    );
+  }
+
+  const sites = await loadWebsiteConfigs(configDir);
+  return Promise.all(
+    files.map(async (file) =>
+      configFactory(await loadBandConfigFile(file), sites),
+    ),
+  );
+}
@@ -1,23 +0,0 @@
-import { BandBaseConfiguration } from "../types";
-
-export const config: BandBaseConfiguration = {
-  name: "Moongold",
-  genres: ["funk", "soul", "blues", "jazz", "gogo", "go-go", "go go"],
-  sites: [
-    // "commetPingPong",
-    // "quarryHouseTavern",
-    // "unionStage",
-    // "dc9",
-    // "madamsOrgan",
-    // "ramsHead",
-  ],
-  filter: [
-    "Moran-Tripp Band",
-    "Moran Tripp Band",
-    "Latin Blues Funk",
-    "Human Country Jukebox featuring Jack Gregori",
-    "Madams Dance Party",
-    "Groovenix",
-    "Alain Nu (Magician)",
-  ],
-};
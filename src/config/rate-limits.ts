@@ -0,0 +1,10 @@
+import { RateLimits } from "../types";
+
+/**
+ * Ticketing sites that host the event details for many venues and are quick to
+ * block scrapers.
+ */
+export const rateLimits: RateLimits = {
+  "ticketweb.com": { concurrency: 1, delay: 3000 },
+  "eventbrite.com": { concurrency: 1, delay: 3000 },
+};
@@ -3,6 +3,10 @@ import { WebsiteConfig } from "../types";
 export const websiteConfig: Record<string, WebsiteConfig> = {
   commetPingPong: {
     url: "https://www.cometpingpong.com/livemusic",
+    venue: {
+      name: "Comet Ping Pong",
+      neighborhood: "Chevy Chase, DC",
+    },
     selectors: {
       event: "article",
       date: "time",
@@ -11,6 +15,10 @@ export const websiteConfig: Record<string, WebsiteConfig> = {
   },
   quarryHouseTavern: {
     url: "https://www.quarryhousetavern.com/music",
+    venue: {
+      name: "Quarry House Tavern",
+      neighborhood: "Silver Spring, MD",
+    },
     selectors: {
       event: "article",
       date: "time",
@@ -19,6 +27,10 @@ export const websiteConfig: Record<string, WebsiteConfig> = {
   },
   unionStage: {
     url: "https://www.unionstagepresents.com",
+    venue: {
+      name: "Union Stage",
+      neighborhood: "The Wharf, DC",
+    },
     selectors: {
       event: "[data-venue]",
       date: ".date",
@@ -42,6 +54,10 @@ export const websiteConfig: Record<string, WebsiteConfig> = {
   },
   madamsOrgan: {
     url: "https://www.madamsorgan.com/events/",
+    venue: {
+      name: "Madam's Organ",
+      neighborhood: "Adams Morgan, DC",
+    },
     selectors: {
       event: "article",
       date: ".mec-date-details",
@@ -59,6 +75,10 @@ export const websiteConfig: Record<string, WebsiteConfig> = {
   },
   ramsHead: {
     url: "https://www.ramsheadonstage.com/events",
+    venue: {
+      name: "Rams Head On Stage",
+      neighborhood: "Annapolis, MD",
+    },
     selectors: {
       event: "#eventsList .entry",
       name: ".title",
@@ -75,6 +95,10 @@ export const websiteConfig: Record<string, WebsiteConfig> = {
   },
   dc9: {
     url: "https://dc9.club/events/",
+    venue: {
+      name: "DC9",
+      neighborhood: "Shaw, DC",
+    },
     selectors: {
       event: ".listing__details",
       name: ".listing__title",
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  getDateHorizon,
+  isAfterDate,
+  parseEventDate,
+  parseTime,
+} from "./dates";
+import { createEvent } from "./test-helpers";
+
+test("parseTime reads 12 and 24 hour start times", () => {
+  assert.equal(parseTime("Fri Dec 4 8pm"), "20:00");
+  assert.equal(parseTime("Doors 7:30 p.m. / Show 8"), "19:30");
+  assert.equal(parseTime("8p"), "20:00");
+  assert.equal(parseTime("12 AM"), "00:00");
+  assert.equal(parseTime("12pm"), "12:00");
+  assert.equal(parseTime("Show at 20:00"), "20:00");
+  assert.equal(parseTime("13pm"), undefined);
+  assert.equal(parseTime("Dec 4"), undefined);
+});
+
+test("parseTime doesn't read a lone letter after a number as a time", () => {
+  assert.equal(parseTime("Fri Dec 4, Room 5 A"), undefined);
+  assert.equal(parseTime("Stage 2 P"), undefined);
+  assert.equal(parseTime("Room 5 A, 9pm"), "21:00");
+});
+
+test("parseEventDate reads the date and start time", () => {
+  const now = new Date(2099, 10, 1);
+  assert.deepEqual(parseEventDate("Fri Dec 4 @ 8pm", {}, now), {
+    date: "2099-12-04",
+    time: "20:00",
+  });
+  assert.deepEqual(parseEventDate("4th of December 2100", {}, now), {
+    date: "2100-12-04",
+  });
+  assert.deepEqual(parseEventDate("04/12/2099", { order: "dmy" }, now), {
+    date: "2099-12-04",
+  });
+  assert.equal(parseEventDate("Feb 30", {}, now), null);
+  assert.equal(parseEventDate("Every Friday", {}, now), null);
+});
+
+test("parseEventDate guesses the year of dates without one", () => {
+  const date = (raw: string, now: Date) => parseEventDate(raw, {}, now)?.date;
+
+  // Dates in the next months are this year.
+  assert.equal(date("Dec 4", new Date(2099, 10, 1)), "2099-12-04");
+  // The calendar rolls over into next year.
+  assert.equal(date("Jan 10", new Date(2099, 11, 15)), "2100-01-10");
+  // Recent dates are still this year (ex. events that were just held).
+  assert.equal(date("Feb 10", new Date(2099, 2, 1)), "2099-02-10");
+  // Dates far in the future are from last year.
+  assert.equal(date("Dec 28", new Date(2099, 0, 5)), "2098-12-28");
+});
+
+test("getDateHorizon uses the earlier of --weeks and --until", () => {
+  const now = new Date(2026, 9, 1);
+  assert.equal(getDateHorizon(undefined, undefined, now), undefined);
+  assert.equal(getDateHorizon(2, undefined, now), "2026-10-15");
+  assert.equal(getDateHorizon(undefined, "Dec 1", now), "2026-12-01");
+  assert.equal(getDateHorizon(2, "Dec 1", now), "2026-10-15");
+  assert.equal(getDateHorizon(8, "Oct 20", now), "2026-10-20");
+});
+
+test("getDateHorizon rejects invalid weeks and dates", () => {
+  for (const weeks of [0, -1, NaN]) {
+    assert.throws(() => getDateHorizon(weeks), {
+      message: `Invalid number of weeks: ${weeks}`,
+    });
+  }
+  assert.throws(() => getDateHorizon(undefined, "someday"), {
+    message: "Unable to parse the date someday",
+  });
+});
+
+test("isAfterDate never counts events without a date", () => {
+  assert.equal(isAfterDate(createEvent("Funk Night"), "2099-12-03"), true);
+  assert.equal(isAfterDate(createEvent("Funk Night"), "2099-12-04"), false);
+  assert.equal(
+    isAfterDate(
+      createEvent("Funk Night", { isoDate: undefined }),
+      "2000-01-01",
+    ),
+    false,
+  );
+});
@@ -0,0 +1,284 @@
+import {
+  DateFormat,
+  Event,
+  Nilable,
+  ParsedEventDate,
+  WebsiteConfig,
+} from "./types";
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const MONTH_PATTERN = `(${MONTHS.join("|")})[a-z]*\\.?`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dates without a year are assumed to be in the current year unless that would
+ * put them more than this many days in the past, in which case the calendar has
+ * rolled over into the next year.
+ */
+const ROLLOVER_PAST_DAYS = 60;
+/**
+ * Dates without a year that would land further than this many days in the
+ * future are assumed to be from last year (ex. "Dec 28" seen in early January).
+ */
+const ROLLOVER_FUTURE_DAYS = 305;
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Format the given date as an ISO date string (YYYY-MM-DD) in local time.
+ */
+export function toISODate(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isValidDate(year: number, month: number, day: number) {
+  const d = new Date(year, month - 1, day);
+  return (
+    d.getFullYear() === year &&
+    d.getMonth() === month - 1 &&
+    d.getDate() === day
+  );
+}
+
+/**
+ * Pick the most likely year for a date that didn't include one.
+ */
+function guessYear(month: number, day: number, now: Date) {
+  const year = now.getFullYear();
+  const candidate = new Date(year, month - 1, day).getTime();
+  if (candidate < now.getTime() - ROLLOVER_PAST_DAYS * DAY_MS) return year + 1;
+  if (candidate > now.getTime() + ROLLOVER_FUTURE_DAYS * DAY_MS)
+    return year - 1;
+  return year;
+}
+
+function normalizeYear(year: Nilable<string>) {
+  if (!year) return undefined;
+  const y = parseInt(year, 10);
+  return year.length <= 2 ? 2000 + y : y;
+}
+
+/**
+ * Find a start time like "8pm", "8p", "8:30 p.m." or "20:00" in the given text
+ * and return it as a 24 hour "HH:mm" string. A lone "a" or "p" has to follow
+ * the number directly so that text like "Room 5 A" isn't read as a time.
+ */
+export function parseTime(text: string): string | undefined {
+  const twelveHour = text.match(
+    /\b(\d{1,2})(?::(\d{2}))?(?:\s*([ap])\.?m\.?|([ap])\.?)(?=\W|$)/i,
+  );
+  if (twelveHour) {
+    let hours = parseInt(twelveHour[1], 10);
+    const minutes = parseInt(twelveHour[2] ?? "0", 10);
+    if (hours < 1 || hours > 12 || minutes > 59) return undefined;
+    const pm = (twelveHour[3] ?? twelveHour[4]).toLowerCase() === "p";
+    if (hours === 12) hours = pm ? 12 : 0;
+    else if (pm) hours += 12;
+    return `${pad(hours)}:${pad(minutes)}`;
+  }
+
+  const twentyFourHour = text.match(/(?:^|\D)([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (twentyFourHour) {
+    return `${pad(parseInt(twentyFourHour[1], 10))}:${twentyFourHour[2]}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the year, month and day in the given text.
+ */
+function parseDateParts(text: string, format: DateFormat, now: Date) {
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  let match: RegExpMatchArray | null;
+  if ((match = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    // ISO style dates (2025-10-24 or 2025-10-24T20:00)
+    year = parseInt(match[1], 10);
+    month = parseInt(match[2], 10);
+    day = parseInt(match[3], 10);
+  } else if (
+    (match = text.match(
+      new RegExp(
+        `\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`,
+        "i",
+      ),
+    ))
+  ) {
+    // Month name first (Fri Oct 24, October 24th, 2025)
+    month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+    day = parseInt(match[2], 10);
+    year = normalizeYear(match[3]);
+  } else if (
+    (match = text.match(
+      new RegExp(
+        `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?`,
+        "i",
+      ),
+    ))
+  ) {
+    // Day first (24 Oct, 24th of October 2025)
+    day = parseInt(match[1], 10);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = normalizeYear(match[3]);
+  } else if (
+    (match = text.match(/\b(\d{1,4})[./-](\d{1,2})(?:[./-](\d{2,4}))?\b/))
+  ) {
+    // Numeric dates (10.24.25, 10/24, 24-10-2025)
+    const [, a, b, c] = match;
+    const order = a.length === 4 ? "ymd" : (format.order ?? "mdy");
+    if (order === "ymd") {
+      year = normalizeYear(a);
+      month = parseInt(b, 10);
+      day = c ? parseInt(c, 10) : undefined;
+    } else if (order === "dmy") {
+      day = parseInt(a, 10);
+      month = parseInt(b, 10);
+      year = normalizeYear(c);
+    } else {
+      month = parseInt(a, 10);
+      day = parseInt(b, 10);
+      year = normalizeYear(c);
+    }
+  }
+
+  if (month == null || day == null) return null;
+  if (year == null) year = guessYear(month, day, now);
+  if (!isValidDate(year, month, day)) return null;
+
+  return { year, month, day };
+}
+
+/**
+ * Parse the raw date text scraped from a venue website into an ISO date and
+ * optional start time. Returns `null` if no date could be found.
+ */
+export function parseEventDate(
+  raw: Nilable<string>,
+  format: DateFormat = {},
+  now: Date = new Date(),
+): ParsedEventDate | null {
+  if (!raw) return null;
+
+  let text = raw.replace(/\s+/g, " ").trim();
+  if (format.pattern) {
+    const match = text.match(format.pattern);
+    if (!match) return null;
+    text = match[1] ?? match[0];
+  }
+
+  const parts = parseDateParts(text, format, now);
+  if (!parts) return null;
+
+  const out: ParsedEventDate = {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+  };
+  const time = parseTime(text);
+  if (time) out.time = time;
+  return out;
+}
+
+/**
+ * Add the parsed ISO date and start time to an event using the site's date
+ * format hints or its custom `normalizeDate` function.
+ */
+export function normalizeEventDate(
+  event: Event,
+  site: Pick<WebsiteConfig, "dateFormat" | "normalizeDate">,
+  now: Date = new Date(),
+): Event {
+  const parsed = site.normalizeDate
+    ? site.normalizeDate(event.date ?? "")
+    : parseEventDate(event.date, site.dateFormat, now);
+
+  return {
+    ...event,
+    isoDate: parsed?.date ?? null,
+    startTime: parsed?.time ?? null,
+  };
+}
+
+/**
+ * Whether the event happened before today. Events without a parsed date are
+ * never considered past events.
+ */
+export function isPastEvent(event: Event, now: Date = new Date()) {
+  return !!event.isoDate && event.isoDate < toISODate(now);
+}
+
+/**
+ * Whether the event happens after the given ISO date. Events without a parsed
+ * date are never considered to be after the date.
+ */
+export function isAfterDate(event: Event, isoDate: string) {
+  return !!event.isoDate && event.isoDate > isoDate;
+}
+
+/**
+ * Determine the last date (YYYY-MM-DD) we care about from either a number of
+ * weeks to look ahead or an explicit date. When both are given, the earlier
+ * date wins.
+ */
+export function getDateHorizon(
+  weeks?: Nilable<number>,
+  until?: Nilable<string>,
+  now: Date = new Date(),
+): string | undefined {
+  const horizons: string[] = [];
+
+  if (weeks != null) {
+    if (!(weeks > 0)) throw new Error(`Invalid number of weeks: ${weeks}`);
+    horizons.push(toISODate(new Date(now.getTime() + weeks * 7 * DAY_MS)));
+  }
+
+  if (until) {
+    const parsed = parseEventDate(until, {}, now);
+    if (!parsed) throw new Error(`Unable to parse the date ${until}`);
+    horizons.push(parsed.date);
+  }
+
+  return horizons.sort()[0];
+}
+
+/**
+ * Sort comparator that orders events chronologically. Events without a parsed
+ * date are sorted to the end.
+ */
+export function compareEventDates(a: Event, b: Event) {
+  if (!a.isoDate || !b.isoDate) {
+    return a.isoDate ? -1 : b.isoDate ? 1 : 0;
+  }
+  const left = `${a.isoDate} ${a.startTime ?? ""}`;
+  const right = `${b.isoDate} ${b.startTime ?? ""}`;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Format the event date for display, including the parsed date when we have
+ * one.
+ */
+export function formatEventDate(
+  event: Pick<Event, "date" | "isoDate" | "startTime">,
+) {
+  if (!event.isoDate) return event.date || "Unknown";
+  const parsed = [event.isoDate, event.startTime].filter(Boolean).join(" ");
+  return event.date ? `${event.date} (${parsed})` : parsed;
+}
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  createErrorRecord,
+  ErrorHistory,
+  summarizeErrors,
+  toErrorRecord,
+} from "./errors";
+import { createScrapeError } from "./retry";
+import type { ScrapeErrorRecord } from "./types";
+
+const SITE = "https://venue.example.com/events";
+const OTHER_SITE = "https://other.example.com/events";
+const NOW = new Date("2099-11-01T12:00:00.000Z");
+
+test("createErrorRecord reads the kind and screenshot from the error", () => {
+  const error = createScrapeError("http", "HTTP 503 loading /funk-night", {
+    status: 503,
+  });
+  error.screenshot = "screenshots/venue.png";
+  assert.deepEqual(
+    createErrorRecord(
+      SITE,
+      "detail",
+      "Error fetching event Funk Night",
+      {
+        error,
+        event: {
+          name: "Funk Night",
+          date: "Dec 4",
+          detailLink: null,
+          description: null,
+          relevance: null,
+          page: 0,
+        },
+        url: "https://venue.example.com/funk-night",
+      },
+      NOW,
+    ),
+    {
+      site: SITE,
+      eventId: "funk night|dec 4|",
+      url: "https://venue.example.com/funk-night",
+      phase: "detail",
+      kind: "http",
+      message: "Error fetching event Funk Night: HTTP 503 loading /funk-night",
+      time: NOW.toISOString(),
+      screenshot: "screenshots/venue.png",
+    },
+  );
+  assert.equal(
+    createErrorRecord(SITE, "list", "No events", { kind: "selector" }).kind,
+    "selector",
+  );
+});
+
+test("toErrorRecord guesses the phase and kind of old error messages", () => {
+  const time = NOW.toISOString();
+  const guess = (message: string) => {
+    const { phase, kind } = toErrorRecord(SITE, message, time);
+    return [phase, kind];
+  };
+  assert.deepEqual(
+    guess(
+      "Error fetching lineup description for event (1) Funk Night on Dec 4 at /a: TimeoutError: Navigation timeout of 10000 ms exceeded",
+    ),
+    ["lineup", "timeout"],
+  );
+  assert.deepEqual(
+    guess(
+      "No description found for event (2) Funk Night on Dec 4 at https://venue.example.com",
+    ),
+    ["detail", "selector"],
+  );
+  assert.deepEqual(guess("Could not find load more button on /events"), [
+    "load-more",
+    "other",
+  ]);
+  assert.deepEqual(guess("Error: net::ERR_CONNECTION_RESET at /events"), [
+    "list",
+    "network",
+  ]);
+
+  const record = createErrorRecord(SITE, "list", "Saved", {}, NOW);
+  assert.equal(toErrorRecord(SITE, record, time), record);
+});
+
+function createHistory(
+  runs: string[],
+  errors: [string, number, Partial<ScrapeErrorRecord>][],
+): ErrorHistory {
+  return {
+    runs,
+    errors: errors.map(([site, run, error]) => ({
+      site,
+      phase: "detail",
+      kind: "timeout",
+      message: "failed",
+      time: runs[run],
+      run: runs[run],
+      ...error,
+    })),
+  };
+}
+
+test("summarizeErrors tells flaky sites from broken ones", () => {
+  const runs = ["2099-11-03", "2099-11-02", "2099-11-01"];
+  const history = createHistory(runs, [
+    [SITE, 1, {}],
+    [SITE, 2, { phase: "lineup" }],
+    // Pages missing from the cache aren't the site's fault.
+    [SITE, 0, { kind: "cache", phase: "list" }],
+    [OTHER_SITE, 0, { kind: "selector", phase: "list" }],
+  ]);
+  const [flaky, broken, ok] = summarizeErrors(history, [
+    SITE,
+    OTHER_SITE,
+    "https://ok.example.com",
+  ]);
+
+  assert.deepEqual(
+    { ...flaky, last: flaky.last?.time },
+    {
+      site: SITE,
+      runs: 3,
+      failedRuns: 2,
+      kinds: { timeout: 2 },
+      phases: { detail: 1, lineup: 1 },
+      last: "2099-11-02",
+      status: "flaky",
+    },
+  );
+  assert.equal(broken.status, "broken");
+  assert.equal(ok.status, "ok");
+  assert.equal(ok.failedRuns, 0);
+
+  // Failing on every run is broken even without selector errors.
+  const [always] = summarizeErrors(
+    createHistory(runs.slice(0, 2), [
+      [SITE, 0, {}],
+      [SITE, 1, { kind: "network" }],
+    ]),
+    [SITE],
+  );
+  assert.equal(always.status, "broken");
+});
@@ -0,0 +1,235 @@
+import chalk from "chalk";
+
+import type {
+  Event,
+  EventsResult,
+  ScrapeErrorKind,
+  ScrapeErrorRecord,
+  ScrapePhase,
+} from "./types";
+import { getEventId } from "./identity";
+import { getErrorKind, ScrapeError } from "./retry";
+
+/**
+ * The errors saved over the latest runs (see `EventStore.loadErrors`).
+ */
+export interface ErrorHistory {
+  /**
+   * When each run started (ISO timestamp), newest first.
+   */
+  runs: string[];
+  errors: (ScrapeErrorRecord & { run: string })[];
+}
+
+/**
+ * How a site has been doing over the latest runs.
+ */
+export interface SiteErrorSummary {
+  site: string;
+  runs: number;
+  /**
+   * The number of runs with at least one error.
+   */
+  failedRuns: number;
+  kinds: Partial<Record<ScrapeErrorKind, number>>;
+  phases: Partial<Record<ScrapePhase, number>>;
+  /**
+   * The most recent error.
+   */
+  last?: ScrapeErrorRecord;
+  /**
+   * `broken` sites fail on every run or couldn't find their selectors on the
+   * latest run which usually means the site config needs updating. `flaky`
+   * sites fail now and then.
+   */
+  status: "ok" | "flaky" | "broken";
+}
+
+/**
+ * Create the record of an error from scraping a site. The kind and screenshot
+ * are read from the error when there is one.
+ */
+export function createErrorRecord(
+  site: string,
+  phase: ScrapePhase,
+  message: string,
+  {
+    error,
+    event,
+    url,
+    kind,
+  }: {
+    error?: unknown;
+    event?: Event;
+    url?: string | null;
+    kind?: ScrapeErrorKind;
+  } = {},
+  now = new Date(),
+): ScrapeErrorRecord {
+  const reason = error instanceof Error ? error.message : error;
+  const screenshot = (error as Partial<ScrapeError> | undefined)?.screenshot;
+  return {
+    site,
+    ...(event ? { eventId: getEventId(event) } : {}),
+    ...(url ? { url } : {}),
+    phase,
+    kind: kind ?? (error == null ? "other" : getErrorKind(error)),
+    message: reason == null ? message : `${message}: ${reason}`,
+    time: now.toISOString(),
+    ...(screenshot ? { screenshot } : {}),
+  };
+}
+
+/**
+ * Whether the site's event list failed to load on this run. The site has no
+ * events to compare with the previous run so its stored events are kept.
+ */
+export function hasListError(site: EventsResult) {
+  return !!site.errors?.some((error) => error.phase === "list");
+}
+
+/**
+ * Whether the error is from a page that isn't in the cache (see `--cache-only`).
+ * These say nothing about the site so they aren't saved or summarized.
+ */
+export function isCacheError(error: ScrapeErrorRecord) {
+  return error.kind === "cache";
+}
+
+/**
+ * Guess the phase of an error saved as a message before errors were recorded
+ * with their phase.
+ */
+function guessPhase(message: string): ScrapePhase {
+  if (/lineup/i.test(message)) return "lineup";
+  if (/load more/i.test(message)) return "load-more";
+  if (/booking/i.test(message)) return "booking";
+  if (/\bevent \(|description/i.test(message)) return "detail";
+  return "list";
+}
+
+/**
+ * Guess the kind of an error saved as a message.
+ */
+function guessKind(message: string): ScrapeErrorKind {
+  const kind = getErrorKind(new Error(message));
+  if (kind !== "other") return kind;
+  if (/\bHTTP \d{3}\b/.test(message)) return "http";
+  if (/selector|matched|No description found/i.test(message)) {
+    return "selector";
+  }
+  return "other";
+}
+
+/**
+ * Get the record of an error saved by an older version (as a message or an
+ * error object) so that old runs can be summarized with the new ones.
+ */
+export function toErrorRecord(
+  site: string,
+  error: unknown,
+  time: string,
+): ScrapeErrorRecord {
+  if (typeof error === "object" && error != null && "phase" in error) {
+    return error as ScrapeErrorRecord;
+  }
+  const message = typeof error === "string" ? error : String(error);
+  return {
+    site,
+    phase: guessPhase(message),
+    kind: guessKind(message),
+    message,
+    time,
+  };
+}
+
+/**
+ * Format the error record for the console.
+ */
+export function formatErrorRecord(error: ScrapeErrorRecord) {
+  const screenshot = error.screenshot
+    ? ` (screenshot: ${chalk.blue(error.screenshot)})`
+    : "";
+  return `${chalk.red(`[${error.phase}/${error.kind}]`)} ${error.message}${screenshot}`;
+}
+
+function increment<K extends string>(
+  counts: Partial<Record<K, number>>,
+  key: K,
+) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Summarize the errors of each site over the runs in the history so that
+ * flaky sites can be told apart from broken site configs.
+ */
+export function summarizeErrors(
+  history: ErrorHistory,
+  sites: string[],
+): SiteErrorSummary[] {
+  const saved = history.errors.filter((e) => !isCacheError(e));
+  const urls = [...new Set([...sites, ...saved.map((e) => e.site)])];
+  const [latest] = history.runs;
+  return urls.map((site) => {
+    const errors = saved.filter((e) => e.site === site);
+    const failedRuns = new Set(errors.map((e) => e.run)).size;
+    const kinds: SiteErrorSummary["kinds"] = {};
+    const phases: SiteErrorSummary["phases"] = {};
+    for (const error of errors) {
+      increment(kinds, error.kind);
+      increment(phases, error.phase);
+    }
+    const last = errors.reduce<ScrapeErrorRecord | undefined>(
+      (last, error) => (!last || error.time > last.time ? error : last),
+      undefined,
+    );
+
+    const runs = history.runs.length;
+    let status: SiteErrorSummary["status"] = "ok";
+    if (errors.length) {
+      const selectorErrors = errors.some(
+        (e) => e.run === latest && e.kind === "selector",
+      );
+      status =
+        selectorErrors || (runs > 1 && failedRuns >= runs) ? "broken" : "flaky";
+    }
+    return { site, runs, failedRuns, kinds, phases, last, status };
+  });
+}
+
+function formatCounts(counts: Partial<Record<string, number>>) {
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b! - a!)
+    .map(([key, count]) => `${key} ${count}`)
+    .join(", ");
+}
+
+/**
+ * Console print the error summary of each site, worst first.
+ */
+export function printErrorSummary(summaries: SiteErrorSummary[]) {
+  const order = { broken: 0, flaky: 1, ok: 2 };
+  const sorted = [...summaries].sort(
+    (a, b) => order[a.status] - order[b.status] || b.failedRuns - a.failedRuns,
+  );
+  const colors = { broken: chalk.red, flaky: chalk.yellow, ok: chalk.green };
+
+  for (const summary of sorted) {
+    console.log(
+      `${colors[summary.status](summary.status.padEnd(6))} ${chalk.blue(summary.site)}`,
+    );
+    if (summary.status === "ok") continue;
+
+    console.log(
+      `    Failed runs: ${chalk.red(summary.failedRuns)} / ${summary.runs}`,
+    );
+    console.log(`    Kinds: ${formatCounts(summary.kinds)}`);
+    console.log(`    Phases: ${formatCounts(summary.phases)}`);
+    if (summary.last) {
+      console.log(
+        `    Last: ${chalk.cyan(new Date(summary.last.time).toLocaleString())} ${formatErrorRecord(summary.last)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { test } from "node:test";
+
+import {
+  createReplayCache,
+  getRequestKey,
+  loadFixtureSite,
+  startReplayServer,
+} from "./fixtures";
+
+const FIXTURE_DIR = path.resolve("fixtures", "example-venue");
+
+test("getRequestKey includes a hash of the POST body", () => {
+  assert.equal(
+    getRequestKey("get", "https://venue.example.com/events"),
+    "GET https://venue.example.com/events",
+  );
+  const key = getRequestKey("POST", "https://venue.example.com/more", "page=2");
+  assert.match(key, /^POST https:\/\/venue\.example\.com\/more [0-9a-f]{40}$/);
+  assert.notEqual(
+    key,
+    getRequestKey("POST", "https://venue.example.com/more", "page=3"),
+  );
+});
+
+test("startReplayServer answers the recorded requests", async () => {
+  const server = await startReplayServer(FIXTURE_DIR);
+  const replay = (url: string) =>
+    fetch(`${server.url}/${encodeURIComponent(url)}`, { redirect: "manual" });
+
+  try {
+    const page = await replay("https://venue.example.com/events");
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), /<h2>Funk Night<\/h2>/);
+
+    const redirect = await replay(
+      "https://venue.example.com/events/soul-revue",
+    );
+    assert.equal(redirect.status, 301);
+    assert.equal(
+      redirect.headers.get("location"),
+      "https://tickets.example.com/e/soul-revue",
+    );
+
+    const missing = await replay("https://venue.example.com/about");
+    assert.equal(missing.status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("createReplayCache follows the recorded redirects", async () => {
+  const server = await startReplayServer(FIXTURE_DIR);
+  const cache = createReplayCache(server.url);
+
+  try {
+    const page = await cache.get("https://venue.example.com/events/soul-revue");
+    assert.equal(page?.url, "https://venue.example.com/events/soul-revue");
+    assert.equal(page?.finalUrl, "https://tickets.example.com/e/soul-revue");
+    assert.equal(page?.status, 200);
+    assert.equal(page && cache.canReuse(page), true);
+
+    assert.equal(await cache.get("https://venue.example.com/about"), undefined);
+  } finally {
+    await server.close();
+  }
+});
+
+test("loadFixtureSite reads the config kept with a fixture", async () => {
+  const site = await loadFixtureSite(FIXTURE_DIR);
+  assert.equal(site?.url, "https://venue.example.com/events");
+  assert.equal(site?.engine, "http");
+  assert.equal(await loadFixtureSite(path.resolve("fixtures")), undefined);
+});
@@ -0,0 +1,373 @@
+import chalk from "chalk";
+import { createHash } from "node:crypto";
+import { constants, existsSync } from "fs";
+import { access, mkdir, readFile, rm, writeFile } from "fs/promises";
+import http, { IncomingMessage } from "node:http";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+import { HTTPResponse, Page } from "puppeteer";
+
+import type { BandConfig, CachedPage, WebsiteConfig } from "./types";
+import { addPageHook, launchBrowser } from "./browser";
+import { parseWebsiteConfig, readConfigFile } from "./config-loader";
+import type { PageCache } from "./page-cache";
+import { getRelevanceForEvents, loadAllEventSummaries } from "./scraper";
+import { spinner } from "./spinner";
+
+const INDEX_FILE = "index.json";
+const SITE_FILE = "site.yaml";
+const RESPONSES_DIR = "responses";
+
+/**
+ * The types of requests that are saved when recording a site. Everything else
+ * (images, fonts, media) is blocked during replay.
+ */
+const RECORDED_RESOURCE_TYPES = [
+  "document",
+  "stylesheet",
+  "script",
+  "xhr",
+  "fetch",
+];
+
+/**
+ * The response headers that are needed to replay a response.
+ */
+const REPLAYED_HEADERS = ["content-type", "location"];
+
+/**
+ * The genres used to score events in fixture snapshots. These are fixed so that
+ * changing a band config doesn't change the snapshots.
+ */
+export const FIXTURE_GENRES = ["funk", "soul", "blues", "jazz", "go-go"];
+
+/**
+ * A network response saved while recording a site.
+ */
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  /**
+   * The file in the `responses` directory that holds the response body.
+   */
+  body: string | null;
+}
+
+/**
+ * The index of a recorded site describing how it was recorded and where to find
+ * each response.
+ */
+export interface FixtureIndex {
+  /**
+   * The key of the site in the website config.
+   */
+  site: string;
+  /**
+   * When the site was recorded. Dates without a year are parsed relative to
+   * this time when replaying.
+   */
+  recordedAt: string;
+  /**
+   * The number of event detail pages that were recorded.
+   */
+  limit: number;
+  timeout: number;
+  /**
+   * The recorded responses keyed by `getRequestKey`.
+   */
+  responses: Record<string, RecordedResponse>;
+}
+
+function hash(data: string | Buffer) {
+  return createHash("sha1").update(data).digest("hex");
+}
+
+function pickHeaders(headers: Iterable<[string, string]>) {
+  return Object.fromEntries(
+    [...headers].filter(([name]) =>
+      REPLAYED_HEADERS.includes(name.toLowerCase()),
+    ),
+  );
+}
+
+/**
+ * Get the key used to look up a recorded response. POST requests (ex. "load
+ * more" requests) include a hash of the request body.
+ */
+export function getRequestKey(method: string, url: string, postData?: string) {
+  const key = `${method.toUpperCase()} ${url}`;
+  return postData ? `${key} ${hash(postData)}` : key;
+}
+
+/**
+ * Get the directory where the fixtures for a site are stored.
+ */
+export function getFixtureDir(dir: string, site: string) {
+  return path.join(dir, site);
+}
+
+/**
+ * Create the band config used when recording and replaying a site.
+ */
+export function createFixtureBand(site: WebsiteConfig): BandConfig {
+  return {
+    name: "fixtures",
+    genres: FIXTURE_GENRES,
+    sites: [],
+    websiteConfigs: [site],
+  };
+}
+
+/**
+ * Load the index of the recorded site in the given fixture directory.
+ */
+export async function loadFixture(fixtureDir: string) {
+  const file = path.join(fixtureDir, INDEX_FILE);
+  await access(file, constants.F_OK);
+  const data = await readFile(file, "utf-8");
+  return JSON.parse(data) as FixtureIndex;
+}
+
+/**
+ * Load the website config kept in the fixture directory. Hand written fixtures
+ * for made up venues carry their own config instead of using a site from the
+ * website configs.
+ */
+export async function loadFixtureSite(fixtureDir: string) {
+  const file = path.join(fixtureDir, SITE_FILE);
+  if (!existsSync(file)) return undefined;
+  return parseWebsiteConfig(await readConfigFile(file), file);
+}
+
+/**
+ * Save the response to the fixture directory and add it to the index.
+ */
+async function saveResponse(
+  response: HTTPResponse,
+  index: FixtureIndex,
+  fixtureDir: string,
+) {
+  const request = response.request();
+  if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType())) return;
+
+  const status = response.status();
+  let body: string | null = null;
+
+  // Redirects don't have a body.
+  if (status < 300 || status >= 400) {
+    try {
+      const buffer = await response.buffer();
+      body = hash(buffer);
+      await writeFile(path.join(fixtureDir, RESPONSES_DIR, body), buffer);
+    } catch (e) {
+      // The page was closed or navigated away before the body was loaded so
+      // it can't have been needed.
+      return;
+    }
+  }
+
+  index.responses[
+    getRequestKey(request.method(), request.url(), request.postData())
+  ] = {
+    status,
+    headers: pickHeaders(Object.entries(response.headers())),
+    body,
+  };
+}
+
+/**
+ * Record every response the page receives into the fixture. The saves are
+ * added to `pending` so they can be awaited before the index is written.
+ */
+function recordResponses(
+  page: Page,
+  index: FixtureIndex,
+  fixtureDir: string,
+  pending: Promise<void>[],
+) {
+  page.on("response", (response) => {
+    pending.push(saveResponse(response, index, fixtureDir));
+  });
+}
+
+/**
+ * Visit a site the same way `search` does and save the list page, each "load
+ * more" state and the first `limit` event detail pages so they can be replayed
+ * without network access.
+ */
+export async function record(
+  key: string,
+  site: WebsiteConfig,
+  dir: string,
+  limit = 5,
+  timeout = 10000,
+  debug = false,
+) {
+  // The responses are recorded from the browser so every site is loaded with it,
+  // including sites using the http engine.
+  site = { ...site, engine: "browser" };
+  const fixtureDir = getFixtureDir(dir, key);
+  await rm(path.join(fixtureDir, RESPONSES_DIR), {
+    recursive: true,
+    force: true,
+  });
+  await mkdir(path.join(fixtureDir, RESPONSES_DIR), { recursive: true });
+
+  const index: FixtureIndex = {
+    site: key,
+    recordedAt: new Date().toISOString(),
+    limit,
+    timeout,
+    responses: {},
+  };
+  const pending: Promise<void>[] = [];
+
+  const browser = await launchBrowser(debug);
+  addPageHook(browser, async (page) =>
+    recordResponses(page, index, fixtureDir, pending),
+  );
+
+  try {
+    const sites = await loadAllEventSummaries([site], [], browser, timeout);
+    await getRelevanceForEvents(
+      sites,
+      createFixtureBand(site),
+      browser,
+      limit,
+      timeout,
+    );
+    await Promise.all(pending);
+  } finally {
+    await browser.close();
+  }
+
+  await writeFile(
+    path.join(fixtureDir, INDEX_FILE),
+    JSON.stringify(index, null, 2),
+  );
+  spinner.succeed(
+    `${chalk.green(Object.keys(index.responses).length)} responses recorded to ${chalk.green(fixtureDir)}`,
+  );
+  return index;
+}
+
+function readBody(request: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf-8");
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Start a local HTTP server that replays the responses recorded in the fixture
+ * directory. Requests are made to `/<encoded original url>` using the original
+ * method and body. Requests that weren't recorded get a 404.
+ */
+export async function startReplayServer(fixtureDir: string) {
+  const index = await loadFixture(fixtureDir);
+
+  const server = http.createServer(async (request, response) => {
+    try {
+      const url = decodeURIComponent((request.url ?? "/").slice(1));
+      const postData = await readBody(request);
+      const recorded =
+        index.responses[
+          getRequestKey(request.method ?? "GET", url, postData || undefined)
+        ];
+
+      if (!recorded) {
+        response.writeHead(404).end();
+        return;
+      }
+
+      response.writeHead(recorded.status, recorded.headers);
+      response.end(
+        recorded.body
+          ? await readFile(path.join(fixtureDir, RESPONSES_DIR, recorded.body))
+          : undefined,
+      );
+    } catch (e) {
+      response.writeHead(500).end(String(e));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    index,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Answer every request the page makes from the replay server at `serverUrl` so
+ * the page can be scraped without network access.
+ */
+export async function replayResponses(page: Page, serverUrl: string) {
+  await page.setRequestInterception(true);
+  page.on("request", async (request) => {
+    if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType())) {
+      await request.abort("blockedbyclient");
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${serverUrl}/${encodeURIComponent(request.url())}`,
+        {
+          method: request.method(),
+          body: request.postData(),
+          redirect: "manual",
+        },
+      );
+      await request.respond({
+        status: response.status,
+        headers: pickHeaders(response.headers),
+        body: Buffer.from(await response.arrayBuffer()),
+      });
+    } catch (e) {
+      await request.abort("failed");
+    }
+  });
+}
+
+/**
+ * Create an offline page cache that answers the pages loaded by the http engine
+ * from the replay server at `serverUrl`, so sites using it are replayed without
+ * the browser. Redirects are followed and requests that weren't recorded aren't
+ * in the cache.
+ */
+export function createReplayCache(serverUrl: string): PageCache {
+  const get = async (url: string): Promise<CachedPage | undefined> => {
+    const response = await fetch(`${serverUrl}/${encodeURIComponent(url)}`, {
+      redirect: "manual",
+    });
+    if (response.status === 404) return undefined;
+
+    const location = response.headers.get("location");
+    if (location && response.status >= 300 && response.status < 400) {
+      const page = await get(new URL(location, url).toString());
+      return page && { ...page, url };
+    }
+
+    return {
+      url,
+      finalUrl: url,
+      status: response.status,
+      fetched: new Date().toISOString(),
+      html: await response.text(),
+    };
+  };
+
+  return {
+    offline: true,
+    get,
+    canReuse: () => true,
+    set: async () => {},
+  };
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatCsv, formatHtml, formatIcs, formatMarkdown } from "./formats";
+import type { BandConfig, EventsResult } from "./types";
+
+const band: BandConfig = {
+  name: "Moongold",
+  genres: ["funk*", "soul"],
+  sites: [],
+  websiteConfigs: [],
+};
+
+const sites: EventsResult[] = [
+  {
+    url: "https://venue.example.com/events",
+    events: [
+      {
+        name: 'Funk, "Soul" & More',
+        date: "Fri Dec 4 8pm",
+        isoDate: "2099-12-04",
+        startTime: "20:00",
+        description: null,
+        detailLink: "/e/1",
+        relevance: ["A night of <funky> soul with a long description to fold"],
+        score: 2,
+        matches: ["funk*", "soul"],
+        page: 0,
+      },
+      {
+        name: "No Date",
+        date: "TBA",
+        description: null,
+        detailLink: null,
+        relevance: ["soul"],
+        score: 1,
+        matches: ["soul"],
+        page: 0,
+      },
+    ],
+  },
+];
+
+test("formatCsv quotes values with commas and quotes", () => {
+  const [header, first, second] = formatCsv(band, sites).split("\r\n");
+  assert.match(header, /^band,site,name,date,isoDate,startTime,score,matches/);
+  assert.match(
+    first,
+    /^Moongold,https:\/\/venue.example.com\/events,"Funk, ""Soul"" & More",Fri Dec 4 8pm,2099-12-04,20:00,2,funk\* \| soul,https:\/\/venue.example.com\/e\/1,/,
+  );
+  assert.match(
+    second,
+    /,No Date,TBA,,,1,soul,https:\/\/venue.example.com\/events,/,
+  );
+});
+
+test("formatMarkdown and formatHtml highlight the genre terms in the snippets", () => {
+  assert.match(
+    formatMarkdown(band, sites),
+    /> A night of \\<\*\*funky\*\*\\> \*\*soul\*\* with/,
+  );
+  const html = formatHtml(band, sites);
+  assert.match(
+    html,
+    /<blockquote>A night of &lt;<mark>funky<\/mark>&gt; <mark>soul<\/mark> with/,
+  );
+  assert.match(
+    html,
+    /<a href="https:\/\/venue.example.com\/e\/1">Funk, &quot;Soul&quot; &amp; More<\/a>/,
+  );
+});
+
+test("formatIcs creates an event for each dated event", () => {
+  const ics = formatIcs(band, sites, new Date("2099-11-01T12:00:00Z"));
+  const lines = ics.split("\r\n");
+
+  assert.equal(lines.filter((l) => l === "BEGIN:VEVENT").length, 1);
+  assert.ok(lines.includes("DTSTART:20991204T200000"));
+  assert.ok(lines.includes("DTSTAMP:20991101T120000Z"));
+  assert.ok(lines.includes('SUMMARY:Funk\\, "Soul" & More'));
+  assert.ok(lines.every((l) => Buffer.byteLength(l) <= 75));
+  assert.match(ics.replace(/\r\n /g, ""), /with a long description to fold/);
+});
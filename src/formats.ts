@@ -0,0 +1,348 @@
+import { createHash } from "node:crypto";
+
+import type { BandConfig, Event, EventsResult, Nilable } from "./types";
+import { formatEventDate } from "./dates";
+import { getEventId, getEventUrl } from "./identity";
+import { highlightTerms } from "./relevance";
+import { formatVenue, getBandVenueDetails } from "./venues";
+
+export const OUTPUT_FORMATS = [
+  "text",
+  "json",
+  "csv",
+  "markdown",
+  "html",
+  "ics",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * A relevant event flattened for output.
+ */
+export interface EventRow {
+  band: string;
+  site: string;
+  name: string;
+  date: string;
+  isoDate?: string;
+  startTime?: string;
+  link: string;
+  score?: number;
+  matches: string[];
+  relevance: string[];
+  status?: string;
+  firstSeen?: string;
+  venue: string;
+  neighborhood?: string;
+  address?: string;
+  capacity?: number;
+  /**
+   * A one line summary of who to pitch at the venue.
+   */
+  pitch: string;
+  bookingContact?: string;
+  bookingEmail?: string;
+  bookingForm?: string;
+}
+
+const CSV_COLUMNS: (keyof EventRow)[] = [
+  "band",
+  "site",
+  "name",
+  "date",
+  "isoDate",
+  "startTime",
+  "score",
+  "matches",
+  "link",
+  "status",
+  "firstSeen",
+  "venue",
+  "neighborhood",
+  "address",
+  "capacity",
+  "pitch",
+  "bookingContact",
+  "bookingEmail",
+  "bookingForm",
+  "relevance",
+];
+
+/**
+ * Characters used to mark the highlighted terms before the text is escaped.
+ */
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+/**
+ * The maximum length of a line in an iCalendar file (RFC 5545).
+ */
+const ICS_LINE_LENGTH = 75;
+
+function toRow(band: BandConfig, site: EventsResult, event: Event): EventRow {
+  const venue = getBandVenueDetails(band, site);
+  return {
+    band: band.name,
+    site: site.url,
+    name: event.name || "Unknown",
+    date: event.date ?? "",
+    isoDate: event.isoDate ?? undefined,
+    startTime: event.startTime ?? undefined,
+    link: getEventUrl(site.url, event.detailLink),
+    score: event.score ?? undefined,
+    matches: event.matches ?? [],
+    relevance: event.relevance ?? [],
+    status: event.status,
+    firstSeen: event.firstSeen ?? undefined,
+    venue: venue.venue,
+    neighborhood: venue.neighborhood,
+    address: venue.address,
+    capacity: venue.capacity,
+    pitch: venue.pitch,
+    bookingContact: venue.contact,
+    bookingEmail: venue.email,
+    bookingForm: venue.formUrl,
+  };
+}
+
+/**
+ * Flatten the events into one row per event.
+ */
+export function getEventRows(band: BandConfig, sites: EventsResult[]) {
+  return sites.flatMap((site) =>
+    (site.events ?? []).map((event) => toRow(band, site, event)),
+  );
+}
+
+/**
+ * Highlight the band's genre terms in the snippet after escaping it.
+ */
+function highlightSnippet(
+  band: BandConfig,
+  snippet: string,
+  escape: (text: string) => string,
+  open: string,
+  close: string,
+) {
+  return escape(
+    highlightTerms(
+      snippet,
+      band.genres,
+      (match) => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`,
+    ),
+  )
+    .replaceAll(HIGHLIGHT_START, open)
+    .replaceAll(HIGHLIGHT_END, close);
+}
+
+function formatScore(row: EventRow) {
+  return row.score == null ? "" : `${row.score} (${row.matches.join(", ")})`;
+}
+
+export function formatJson(band: BandConfig, sites: EventsResult[]) {
+  return JSON.stringify(getEventRows(band, sites), null, 2) + "\n";
+}
+
+function escapeCsv(value: unknown) {
+  const text = Array.isArray(value) ? value.join(" | ") : String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(band: BandConfig, sites: EventsResult[]) {
+  const rows = getEventRows(band, sites).map((row) =>
+    CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+export function formatMarkdown(band: BandConfig, sites: EventsResult[]) {
+  const lines = [`# Relevant events for ${escapeMarkdown(band.name)}`, ""];
+
+  for (const site of sites) {
+    if (!site.events?.length) continue;
+    lines.push(`## ${site.url}`, "");
+
+    for (const event of site.events) {
+      const row = toRow(band, site, event);
+      lines.push(`### [${escapeMarkdown(row.name)}](${row.link})`, "");
+      lines.push(`- **Date:** ${escapeMarkdown(formatEventDate(event))}`);
+      lines.push(`- **Venue:** ${escapeMarkdown(formatVenue(row))}`);
+      lines.push(`- **Pitch:** ${escapeMarkdown(row.pitch)}`);
+      if (row.score != null) {
+        lines.push(`- **Score:** ${escapeMarkdown(formatScore(row))}`);
+      }
+      lines.push("");
+      for (const snippet of row.relevance) {
+        lines.push(
+          `> ${highlightSnippet(band, snippet, escapeMarkdown, "**", "**")}`,
+          "",
+        );
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function formatHtml(band: BandConfig, sites: EventsResult[]) {
+  const title = `Relevant events for ${escapeHtml(band.name)}`;
+  const body: string[] = [];
+
+  for (const site of sites) {
+    if (!site.events?.length) continue;
+    body.push(`<h2>${escapeHtml(site.url)}</h2>`);
+
+    for (const event of site.events) {
+      const row = toRow(band, site, event);
+      body.push(
+        "<article>",
+        `<h3><a href="${escapeHtml(row.link)}">${escapeHtml(row.name)}</a></h3>`,
+        `<p><strong>Date:</strong> ${escapeHtml(formatEventDate(event))}</p>`,
+        `<p><strong>Venue:</strong> ${escapeHtml(formatVenue(row))}</p>`,
+        `<p><strong>Pitch:</strong> ${escapeHtml(row.pitch)}</p>`,
+      );
+      if (row.score != null) {
+        body.push(
+          `<p><strong>Score:</strong> ${escapeHtml(formatScore(row))}</p>`,
+        );
+      }
+      for (const snippet of row.relevance) {
+        body.push(
+          `<blockquote>${highlightSnippet(band, snippet, escapeHtml, "<mark>", "</mark>")}</blockquote>`,
+        );
+      }
+      body.push("</article>");
+    }
+  }
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+</head>
+<body>
+<h1>${title}</h1>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+function escapeIcs(text: Nilable<string>) {
+  return (text ?? "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 octets onto continuation lines.
+ */
+function foldIcsLine(line: string) {
+  const out: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = out.length ? ICS_LINE_LENGTH - 1 : ICS_LINE_LENGTH;
+    if (Buffer.byteLength(current + char) > limit) {
+      out.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+function toIcsDateTime(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format the events as an iCalendar feed. Events without a parsed date are
+ * left out. Start times are written in the venue's local (floating) time.
+ */
+export function formatIcs(
+  band: BandConfig,
+  sites: EventsResult[],
+  now = new Date(),
+) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//gig-check//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeIcs(`${band.name} gigs`)}`,
+  ];
+
+  for (const site of sites) {
+    for (const event of site.events ?? []) {
+      if (!event.isoDate) continue;
+      const row = toRow(band, site, event);
+      const date = event.isoDate.replace(/-/g, "");
+      const uid = createHash("sha1").update(getEventId(event)).digest("hex");
+      const description = [
+        `Pitch: ${row.pitch}`,
+        formatScore(row) && `Score: ${formatScore(row)}`,
+        ...row.relevance,
+      ].filter(Boolean);
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${uid}@gig-check`,
+        `DTSTAMP:${toIcsDateTime(now)}`,
+        event.startTime
+          ? `DTSTART:${date}T${event.startTime.replace(":", "")}00`
+          : `DTSTART;VALUE=DATE:${date}`,
+        `SUMMARY:${escapeIcs(row.name)}`,
+        `LOCATION:${escapeIcs([row.venue, row.address].filter(Boolean).join(", "))}`,
+        `URL:${row.link}`,
+        `DESCRIPTION:${escapeIcs(description.join("\n\n"))}`,
+        "END:VEVENT",
+      );
+    }
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Format the relevant events for output. The events should already be
+ * filtered and sorted (see `getRelevantEvents`).
+ */
+export function formatEvents(
+  format: Exclude<OutputFormat, "text">,
+  band: BandConfig,
+  sites: EventsResult[],
+) {
+  switch (format) {
+    case "json":
+      return formatJson(band, sites);
+    case "csv":
+      return formatCsv(band, sites);
+    case "markdown":
+      return formatMarkdown(band, sites);
+    case "html":
+      return formatHtml(band, sites);
+    case "ics":
+      return formatIcs(band, sites);
+  }
+}
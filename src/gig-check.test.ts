@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createErrorRecord } from "./errors";
+import {
+  copyEventDetails,
+  copyEventFailures,
+  getBandFile,
+  getSitesForBand,
+  search,
+} from "./gig-check";
+import { createEvent } from "./test-helpers";
+import type { BandConfig, EventsResult } from "./types";
+
+const FUNK_SITE = "https://funk.example.com/events";
+const JAZZ_SITE = "https://jazz.example.com/events";
+
+function createBand(name: string, urls: string[]): BandConfig {
+  return {
+    name,
+    genres: ["funk"],
+    sites: [],
+    websiteConfigs: urls.map((url) => ({ url, structuredData: true })),
+  };
+}
+
+const moongold = createBand("Moongold", [FUNK_SITE, JAZZ_SITE]);
+const horns = createBand("The Horns!", [FUNK_SITE]);
+
+/**
+ * Scrape both sites once. The funk site is shared by both bands and the jazz
+ * site (only followed by Moongold) failed to load its list.
+ */
+function createSharedSites(): EventsResult[] {
+  return [
+    {
+      url: FUNK_SITE,
+      events: [createEvent("Funk Night"), createEvent("Soul Night")],
+    },
+    {
+      url: JAZZ_SITE,
+      events: [],
+      errors: [createErrorRecord(JAZZ_SITE, "list", "Timed out")],
+    },
+  ];
+}
+
+function getEvents(site: EventsResult) {
+  return site.events ?? [];
+}
+
+test("getSitesForBand copies the sites each band follows", () => {
+  const sites = createSharedSites();
+  const [moongoldSites, hornsSites] = [moongold, horns].map((band) =>
+    getSitesForBand(sites, band),
+  );
+
+  assert.deepEqual(
+    moongoldSites.map((site) => site.url),
+    [FUNK_SITE, JAZZ_SITE],
+  );
+  assert.deepEqual(
+    hornsSites.map((site) => site.url),
+    [FUNK_SITE],
+  );
+
+  // Each band scores its own copy of the shared events.
+  getEvents(hornsSites[0])[0].relevance = ["funk"];
+  assert.equal(getEvents(moongoldSites[0])[0].relevance, null);
+  assert.equal(getEvents(sites[0])[0].relevance, null);
+});
+
+test("copyEventFailures keeps the most failures any band recorded", () => {
+  const sites = createSharedSites();
+  const [moongoldSites, hornsSites] = [moongold, horns].map((band) =>
+    getSitesForBand(sites, band),
+  );
+  Object.assign(getEvents(moongoldSites[0])[0], {
+    errors: ["Timed out"],
+    failures: 1,
+  });
+  Object.assign(getEvents(hornsSites[0])[0], {
+    errors: ["Timed out", "Timed out"],
+    failures: 2,
+  });
+
+  copyEventFailures(sites, [moongoldSites, hornsSites]);
+  assert.deepEqual(
+    getEvents(sites[0]).map((event) => [event.name, event.failures]),
+    [
+      ["Funk Night", 2],
+      ["Soul Night", undefined],
+    ],
+  );
+});
+
+test("copyEventDetails shares the loaded details with each band", () => {
+  const sites = createSharedSites();
+  const [moongoldSites, hornsSites] = [moongold, horns].map((band) =>
+    getSitesForBand(sites, band),
+  );
+  // Moongold already scored the funk night on a previous run.
+  getEvents(moongoldSites[0])[0].relevance = [];
+
+  // The shared scrape loads the details of the events.
+  Object.assign(getEvents(sites[0])[0], { description: "A night of funk." });
+  Object.assign(getEvents(sites[0])[1], { errors: ["Timed out"], failures: 1 });
+
+  copyEventDetails(moongoldSites, sites);
+  copyEventDetails(hornsSites, sites);
+
+  assert.deepEqual(
+    [moongoldSites, hornsSites].map((bandSites) =>
+      getEvents(bandSites[0]).map((event) => [
+        event.description,
+        event.failures,
+      ]),
+    ),
+    [
+      [
+        [null, undefined],
+        [null, 1],
+      ],
+      [
+        ["A night of funk.", undefined],
+        [null, 1],
+      ],
+    ],
+  );
+  // The list error of the jazz site is only reported to Moongold.
+  assert.deepEqual(moongoldSites[1].errors, sites[1].errors);
+  assert.notEqual(moongoldSites[1].errors, sites[1].errors);
+  assert.deepEqual(hornsSites[0].errors, []);
+});
+
+test("getBandFile names each band's file with {band}", () => {
+  assert.equal(getBandFile("gigs/{band}.json", horns), "gigs/the-horns.json");
+  assert.equal(getBandFile("gigs.db", horns), "gigs.db");
+});
+
+test("search needs {band} in the file names of several bands", async () => {
+  await assert.rejects(search([moongold, horns], "gigs.db"), {
+    message: /^Use \{band\} in the --file path \(ex\. gigs-\{band\}\.db\)/,
+  });
+  await assert.rejects(
+    search([moongold, horns], "gigs-{band}.db", {
+      printOptions: { format: "csv", output: "gigs.csv" },
+    }),
+    {
+      message: /^Use \{band\} in the --output path \(ex\. gigs-\{band\}\.csv\)/,
+    },
+  );
+});
@@ -1,82 +1,171 @@
 import chalk from "chalk";
-import { constants } from "fs";
-import { access, readFile, writeFile } from "fs/promises";
+import { writeFile } from "fs/promises";
+import path from "node:path";
 import util from "node:util";
-import puppeteer from "puppeteer";
 
-import type { Event, BandConfig, EventsResult } from "./types";
-import { getRelevanceForEvents, loadAllEventSummaries } from "./scraper";
+import type {
+  Event,
+  BandBaseConfiguration,
+  BandConfig,
+  EventsResult,
+  Triage,
+  WebsiteConfig,
+} from "./types";
+import {
+  loadAllEventSummaries,
+  isFilteredEvent,
+  loadBookingInfo,
+  loadEventDescriptions,
+  needsEventDetails,
+  rescoreEvents,
+  scoreEvents,
+} from "./scraper";
+import { createScheduler, SchedulerOptions } from "./scheduler";
+import {
+  Checkpoint,
+  EventStore,
+  getCheckpointFile,
+  loadCheckpoint,
+  openEventStore,
+  openExistingEventStore,
+  removeCheckpoint,
+  RunInfo,
+  saveCheckpoint,
+} from "./store";
 import { countEvents, normalizeWhitespace } from "./util";
 import { spinner } from "./spinner";
+import {
+  createArtistCache,
+  DEFAULT_ARTIST_TTL,
+  getBandArtists,
+  mergeArtistProfiles,
+  printArtists,
+  scoreArtists,
+} from "./artists";
+import { launchBrowser, setScreenshotDir, usesBrowser } from "./browser";
+import { compareEventDates, formatEventDate, isPastEvent } from "./dates";
+import {
+  formatErrorRecord,
+  printErrorSummary,
+  summarizeErrors,
+} from "./errors";
+import { formatEvents, OutputFormat } from "./formats";
+import { canonicalizeUrl, getEventId } from "./identity";
+import {
+  EventChange,
+  findTrackedChanges,
+  trackEventChanges,
+} from "./lifecycle";
+import { openPageCache, PageCacheOptions } from "./page-cache";
+import { compareEventScores, highlightTerms, isRelevant } from "./relevance";
+import { DEFAULT_RETRY_OPTIONS, getFailureCount } from "./retry";
+import {
+  addIgnoreRule,
+  createPrompt,
+  getTriageEntry,
+  groupByTriageStatus,
+  isIgnoredEvent,
+  moveTriageEntries,
+  promptForTriage,
+  setTriageStatus,
+  TRIAGE_TITLES,
+  withIgnoreRules,
+} from "./triage";
+import { formatVenue, getBandVenueDetails } from "./venues";
+
+/**
+ * Options that control which relevant events are printed and in what order.
+ */
+export interface PrintOptions {
+  /**
+   * Include events that have already happened.
+   */
+  includePast?: boolean;
+  /**
+   * Order the events by relevance score (the default) or chronologically.
+   */
+  sort?: "score" | "date";
+  /**
+   * How to output the events. Defaults to colored console text.
+   */
+  format?: OutputFormat;
+  /**
+   * The file to write formats other than text to. Defaults to stdout.
+   */
+  output?: string;
+  /**
+   * The band's triage decisions. Ignored events are hidden and the text output
+   * is grouped by triage status.
+   */
+  triage?: Triage;
+}
 
 /**
  * Find events that we haven't seen before across all the sites we've checked.
  */
-function findNewEvents(newest: EventsResult[], previous: EventsResult[]) {
-  return newest.map((site) => {
-    // find the matching site from the previous data
-    const previousSite = previous.find((prev) => prev.url === site.url);
-
-    const uniqueEvents = !previousSite
-      ? site.events
-      : // Remove duplicates from the events for this site
-        site.events?.filter((event) => {
-          // Check if the event is in the previous data
-          const isInPrevious = previousSite.events?.some(
-            (prevEvent) =>
-              prevEvent.name === event.name &&
-              prevEvent.date === event.date &&
-              prevEvent.detailLink === event.detailLink,
-          );
-          return !isInPrevious;
-        });
-
-    const out = {
-      ...site,
-      events: uniqueEvents ?? [],
-    };
-    return out;
-  });
+function findNewEvents(newest: EventsResult[]) {
+  return newest.map((site) => ({
+    ...site,
+    events: site.events?.filter((event) => event.status === "new") ?? [],
+  }));
 }
 
 /**
- * Transfer the relevance scores from the previous data to the new data.
+ * Copy the relevance of the previous version of the event.
  */
-function updateRelevance(sites: EventsResult[], previous: EventsResult[]) {
-  for (const site of sites) {
-    const previousSite = previous.find((prev) => prev.url === site.url);
-    if (!previousSite) continue;
+function copyRelevance(event: Event, previous: Event) {
+  event.relevance = previous.relevance;
+  event.score = previous.score;
+  event.matches = previous.matches;
+}
 
-    for (const event of site.events ?? []) {
-      const previousEvent = previousSite.events?.find(
-        (prevEvent) =>
-          prevEvent.name === event.name &&
-          prevEvent.date === event.date &&
-          prevEvent.detailLink === event.detailLink,
-      );
-      if (previousEvent) {
-        event.relevance = previousEvent.relevance;
-        event.errors = previousEvent.errors;
-        // } else {
-        //   console.log("unable to find previous event for ", event);
-      }
+/**
+ * Transfer the relevance scores (and where the detail link redirects to) from
+ * the previous version of each event to the new data. Events that were renamed
+ * to match the band's filters (ex. to "CANCELLED: ...") are scored again so
+ * they are marked as irrelevant. When `rescore` is set, every event is scored
+ * again instead (see `restoreRelevance`).
+ */
+function updateRelevance(
+  changes: EventChange[],
+  band: BandConfig,
+  rescore = false,
+) {
+  for (const { event, previous, status } of changes) {
+    if (!previous) continue;
+    if (status === "modified" && isFilteredEvent(event, band)) continue;
+
+    if (!rescore) copyRelevance(event, previous);
+    // Keep the description from the detail page so that the event can be
+    // scored again later (see `rescore`).
+    event.description ??= previous.description;
+    event.lineup = previous.lineup;
+    event.errors = previous.errors;
+    event.failures = previous.failures;
+    if (event.detailLink === previous.detailLink) {
+      event.finalLink ??= previous.finalLink;
     }
   }
 }
 
+/**
+ * Keep the previous relevance of the events that couldn't be scored again
+ * because their pages weren't cached.
+ */
+function restoreRelevance(changes: EventChange[], band: BandConfig) {
+  for (const { event, previous } of changes) {
+    if (!previous || event.relevance != null || event.description) continue;
+    if (isFilteredEvent(event, band)) continue;
+    copyRelevance(event, previous);
+  }
+}
+
 /**
  * Load the data containing the gig data from previous runs.
  */
-async function getPreviousData(file: string) {
+async function getPreviousData(store: EventStore) {
   spinner.start("Loading previous gigs");
-  let previous: EventsResult[] = [];
-  try {
-    await access(file, constants.F_OK);
-    const data = await readFile(file, "utf-8");
-    previous = JSON.parse(data) as EventsResult[];
-  } catch (err) {
-    previous = [] as EventsResult[];
-  }
+  const previous = await store.load();
 
   spinner.succeed(`${chalk.green(countEvents(previous))} previous gigs loaded`);
   return previous;
@@ -90,6 +179,17 @@ function cleanUpEventSummary(event: Event) {
   };
 }
 
+/**
+ * Get the event as it is stored, with its links in their canonical form.
+ */
+function cleanUpEventToWrite(event: Event): Event {
+  return {
+    ...cleanUpEventSummary(event),
+    detailLink: canonicalizeUrl(event.detailLink) || null,
+    ...(event.finalLink ? { finalLink: canonicalizeUrl(event.finalLink) } : {}),
+  };
+}
+
 /**
  * Clean up the event summar so that event fields can be matched against the
  * previous run. This is because we need to compare things like the event
@@ -109,20 +209,16 @@ function cleanUpEventSummaries(sites: EventsResult[]) {
 }
 
 /**
- * Remove intermediary data from the events before they are written to storage.
- * This includes removing the description field and normalizing the whitespace.
+ * Clean up the events before they are written to storage by normalizing the
+ * whitespace and the links. The descriptions (and the bios in the lineup) are
+ * kept so that the events can be scored again without loading their pages (see
+ * `rescore`).
  */
 function cleanUpEventsToWrite(sites: EventsResult[]) {
   return sites.map((site) => {
     return {
       ...site,
-      events: site.events?.map((event) => {
-        const out = cleanUpEventSummary(event);
-        // Remove the description because we only needed it temporarily to
-        // generate the relevance.
-        delete out.description;
-        return out;
-      }),
+      events: site.events?.map(cleanUpEventToWrite),
     };
   });
 }
@@ -131,12 +227,8 @@ function cleanUpEventsToWrite(sites: EventsResult[]) {
  * Compare the new sites to the previous sites and find any new events that
  * have are relevant to this band's genres.
  */
-function determineNewEventsFound(
-  sitesToWrite: EventsResult[],
-  previous: EventsResult[],
-  debug: boolean,
-) {
-  let newEvents = findNewEvents(sitesToWrite, previous);
+function determineNewEventsFound(sitesToWrite: EventsResult[], debug: boolean) {
+  let newEvents = findNewEvents(sitesToWrite);
   spinner.succeed(`${chalk.green(countEvents(newEvents))} new events found`);
   if (debug)
     console.log(util.inspect(newEvents, { colors: true, depth: null }));
@@ -154,22 +246,23 @@ function reportErrors(sitesToWrite: EventsResult[]) {
   );
   if (errorCount) {
     spinner.fail(`${chalk.red(errorCount)} errors found`);
-    console.log(
-      util.inspect(
-        sitesToWrite.flatMap((s) => s.errors),
-        { colors: true, depth: null },
-      ),
-    );
+    for (const error of sitesToWrite.flatMap((s) => s.errors ?? [])) {
+      console.log(`  ${formatErrorRecord(error)}`);
+    }
   }
 }
 
 /**
- * Save the events retrieved to the specified file.
+ * Save the events retrieved to the store.
  */
-async function saveEvents(sitesToWrite: EventsResult[], file: string) {
-  spinner.start(`Writing results to ${chalk.green(file)}`);
+async function saveEvents(
+  sitesToWrite: EventsResult[],
+  store: EventStore,
+  run: RunInfo,
+) {
+  spinner.start(`Writing results to ${chalk.green(store.file)}`);
   try {
-    await writeFile(file, JSON.stringify(sitesToWrite, null, 2));
+    await store.save(sitesToWrite, run);
     spinner.succeed(`${chalk.green(countEvents(sitesToWrite))} events saved`);
   } catch (e) {
     spinner.fail(`Error writing file`);
@@ -178,89 +271,502 @@ async function saveEvents(sitesToWrite: EventsResult[], file: string) {
 }
 
 /**
- * Find new events for a band.
+ * Get the file used to store a band's gigs. A `{band}` placeholder in the file
+ * name is replaced with the band name so each band can keep its own file.
+ */
+export function getBandFile(file: string, band: BandBaseConfiguration) {
+  const slug = band.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return file.replaceAll("{band}", slug);
+}
+
+/**
+ * Make sure each band gets its own file when searching for several bands.
+ */
+function checkBandFile(file: string | undefined, option: string) {
+  if (file && !file.includes("{band}")) {
+    throw new Error(
+      `Use {band} in the ${option} path (ex. gigs-{band}${path.extname(file)}) when searching for several bands`,
+    );
+  }
+}
+
+/**
+ * Get the unique website configs across all of the bands.
+ */
+function getAllWebsiteConfigs(bands: BandConfig[]) {
+  const configs = new Map<string, WebsiteConfig>();
+  for (const band of bands) {
+    for (const config of band.websiteConfigs) {
+      if (!configs.has(config.url)) configs.set(config.url, config);
+    }
+  }
+  return [...configs.values()];
+}
+
+/**
+ * Copy the scraped sites that the band is interested in so that each band's
+ * relevance can be calculated separately.
+ */
+export function getSitesForBand(sites: EventsResult[], band: BandConfig) {
+  return structuredClone(
+    sites.filter((site) => band.websiteConfigs.some((c) => c.url === site.url)),
+  );
+}
+
+/**
+ * Give the shared copy of each event the most failures any band has recorded
+ * for it so that failed detail pages are counted across runs.
+ */
+export function copyEventFailures(
+  sites: EventsResult[],
+  bandSites: EventsResult[][],
+) {
+  for (const site of sites) {
+    const copies = new Map<string, Event>();
+    for (const bandSite of bandSites.flat()) {
+      if (bandSite.url !== site.url) continue;
+      for (const event of bandSite.events ?? []) {
+        const id = getEventId(event);
+        const copy = copies.get(id);
+        if (!copy || getFailureCount(event) > getFailureCount(copy)) {
+          copies.set(id, event);
+        }
+      }
+    }
+
+    for (const event of site.events ?? []) {
+      const copy = copies.get(getEventId(event));
+      if (!copy || getFailureCount(copy) <= getFailureCount(event)) continue;
+      event.errors = copy.errors;
+      event.failures = copy.failures;
+    }
+  }
+}
+
+/**
+ * Copy the descriptions and errors loaded by the shared scrape to the band's
+ * copy of any events that still need their relevance calculated.
+ */
+export function copyEventDetails(
+  bandSites: EventsResult[],
+  sites: EventsResult[],
+) {
+  for (const bandSite of bandSites) {
+    const site = sites.find((s) => s.url === bandSite.url);
+    if (!site) continue;
+
+    bandSite.errors = [...(site.errors ?? [])];
+    const events = new Map(site.events?.map((e) => [getEventId(e), e]));
+
+    for (const event of bandSite.events ?? []) {
+      if (event.relevance != null) continue;
+      const shared = events.get(getEventId(event));
+      if (!shared) continue;
+      // Events scored again from the cache keep their stored description when
+      // their page isn't cached.
+      event.description = shared.description ?? event.description;
+      event.lineup = shared.lineup ?? event.lineup;
+      event.errors = shared.errors;
+      event.failures = shared.failures;
+    }
+  }
+}
+
+/**
+ * Options that control how a search loads the venue websites and reports the
+ * events.
+ */
+export interface SearchOptions {
+  /**
+   * The number of event detail pages to load.
+   */
+  limit?: number;
+  timeout?: number;
+  debug?: boolean;
+  /**
+   * The ISO date (YYYY-MM-DD) after which events are ignored.
+   */
+  maxDate?: string;
+  printOptions?: PrintOptions;
+  /**
+   * How many pages to load at once and how quickly each domain can be hit.
+   */
+  schedulerOptions?: SchedulerOptions;
+  /**
+   * Continue from the checkpoint of an interrupted search.
+   */
+  resume?: boolean;
+  /**
+   * The directory to save screenshots of the pages that fail to load.
+   */
+  screenshotDir?: string;
+  /**
+   * The number of days cached artist bios are reused.
+   */
+  artistTtl?: number;
+  /**
+   * Where and for how long pages are cached. Pages aren't cached without it.
+   */
+  pageCacheOptions?: PageCacheOptions;
+}
+
+/**
+ * Find new events for one or more bands. The venue websites of all the bands
+ * are only scraped once and then each band's events are scored against its own
+ * genres and filters. The progress is saved to a checkpoint as the sites load
+ * so that an interrupted search resumes without loading them again.
  */
 export async function search(
-  band: BandConfig,
+  bands: BandConfig[],
   file: string,
-  limit = 5,
-  timeout = 10000,
-  debug = false,
+  {
+    limit = 5,
+    timeout = 10000,
+    debug = false,
+    maxDate,
+    printOptions = {},
+    schedulerOptions = {},
+    resume = true,
+    screenshotDir,
+    artistTtl = DEFAULT_ARTIST_TTL,
+    pageCacheOptions,
+  }: SearchOptions = {},
 ) {
+  const websiteConfigs = getAllWebsiteConfigs(bands);
+  const scheduler = createScheduler({
+    onRetry: (url, error, attempt, delay) =>
+      spinner.warn(
+        `Retrying ${chalk.yellow(url)} in ${delay}ms (attempt ${attempt}): ${error}`,
+      ),
+    ...schedulerOptions,
+  });
+  const maxFailures =
+    schedulerOptions.retry?.maxFailures ?? DEFAULT_RETRY_OPTIONS.maxFailures;
+  // The progress of the search is printed to stdout so the formatted events
+  // have to go to a file.
+  const { format = "text", output } = printOptions;
+  if (format !== "text" && !output) {
+    throw new Error(`Use --output to save the ${format} events from a search`);
+  }
+  if (bands.length > 1) {
+    checkBandFile(file, "--file");
+    checkBandFile(output, "--output");
+  }
+  const files = bands.map((band) => getBandFile(file, band));
+
+  const checkpointFile = getCheckpointFile(files[0]);
+  const checkpoint = resume
+    ? await loadCheckpoint(checkpointFile, files)
+    : undefined;
+  const run: RunInfo = {
+    startedAt: checkpoint ? new Date(checkpoint.startedAt) : new Date(),
+  };
+  // Sites without any events are loaded again in case they failed.
+  const resumed = (checkpoint?.sites ?? []).filter(
+    (site) =>
+      site.events?.length && websiteConfigs.some((c) => c.url === site.url),
+  );
+
   console.log(chalk.blue("Starting gig search..."));
   console.log(
     util.inspect(
-      { band: band.name, sites: band.sites, file, limit, timeout },
+      {
+        bands: bands.map((b) => b.name),
+        sites: websiteConfigs.map((c) => c.url),
+        files,
+        limit,
+        timeout,
+        maxDate,
+        concurrency: schedulerOptions.concurrency,
+        retries: schedulerOptions.retry?.retries,
+      },
       { colors: true, depth: null },
     ),
   );
+  if (resumed.length) {
+    spinner.info(
+      `Resuming the search from ${run.startedAt.toLocaleString()} with ${chalk.green(resumed.length)} sites already loaded`,
+    );
+  }
 
-  // Get the data from the previous runs.
-  const previous = await getPreviousData(file);
+  // Get the data from the previous runs along with each band's triage
+  // decisions. Acts the band chose to ignore are added to its filters.
+  const stores: EventStore[] = [];
+  const previous: EventsResult[][] = [];
+  const triages: Triage[] = [];
+  for (const [i, f] of files.entries()) {
+    const store = await openEventStore(f);
+    stores.push(store);
+    previous.push(await getPreviousData(store));
+    triages.push(await store.loadTriage(bands[i].name));
+  }
+  bands = bands.map((band, i) => withIgnoreRules(band, triages[i]));
+  const artists = createArtistCache(
+    mergeArtistProfiles(await Promise.all(stores.map((s) => s.loadArtists()))),
+    artistTtl,
+  );
 
-  const browser = await puppeteer.launch({
-    headless: !debug,
-    devtools: debug,
-    protocolTimeout: 1000000,
-  });
+  // Save the progress when the search is interrupted or fails so that the next
+  // search can pick up where this one stopped.
+  const progress: Checkpoint = {
+    startedAt: run.startedAt.toISOString(),
+    files,
+    sites: [...resumed],
+  };
+  const writeCheckpoint = () => saveCheckpoint(checkpointFile, progress);
+  const onInterrupt = () => {
+    writeCheckpoint();
+    spinner.fail("Search interrupted. Run it again to resume.");
+    process.exit(130);
+  };
+  process.once("SIGINT", onInterrupt);
+  process.once("SIGTERM", onInterrupt);
 
-  // Get the summaries of all events
-  const sites = await loadAllEventSummaries(
-    band.websiteConfigs,
-    previous,
-    browser,
-    timeout,
-  );
+  try {
+    // Get the summaries of all events. Sites from the checkpoint aren't loaded
+    // again. The browser is only launched when a site needs it and pages can
+    // be loaded from the network.
+    const cache = pageCacheOptions && openPageCache(pageCacheOptions);
+    // Searching the cache only scores every event again from the cached pages
+    // (ex. after changing the genres). The limit isn't needed since nothing is
+    // loaded from the network.
+    const rescore = !!cache?.offline;
+    const browser =
+      websiteConfigs.some(usesBrowser) && !cache?.offline
+        ? await launchBrowser(debug)
+        : undefined;
+    if (browser && screenshotDir) setScreenshotDir(browser, screenshotDir);
+    const loaded = await loadAllEventSummaries(
+      websiteConfigs.filter((c) => !resumed.some((s) => s.url === c.url)),
+      previous.flat(),
+      browser,
+      timeout,
+      {
+        maxDate,
+        scheduler,
+        onSiteLoaded: (site) => {
+          progress.sites.push(site);
+          writeCheckpoint();
+        },
+        cache,
+      },
+    );
+    await loadBookingInfo(
+      loaded,
+      websiteConfigs,
+      previous.flat(),
+      browser,
+      timeout,
+      scheduler,
+      cache,
+    );
+    const sites = websiteConfigs
+      .map((c) => [...resumed, ...loaded].find((s) => s.url === c.url))
+      .filter((site): site is EventsResult => !!site);
+    // The event details are loaded into these sites in place.
+    progress.sites = sites;
 
-  // Clean up the event summar so that event fields can be matched against the
-  // previous run. This is because we need to compare things like the event
-  // name and date which may contain extra whitespace or other formatting that
-  // we remove before writing the event data.
-  // TODO Pass some utility functions like trimWhitespace to the browser context
-  // so we can do this in the browser.
-  // const sites = cleanUpEventSummaries(rawEvents);
+    // Clean up the event summar so that event fields can be matched against the
+    // previous run. This is because we need to compare things like the event
+    // name and date which may contain extra whitespace or other formatting that
+    // we remove before writing the event data.
+    // TODO Pass some utility functions like trimWhitespace to the browser context
+    // so we can do this in the browser.
+    // const sites = cleanUpEventSummaries(rawEvents);
 
-  // Transfer the previously discovered relevance scores to the new data.
-  // This will also remove any expired events.
-  updateRelevance(sites, previous);
+    // Find out how each event changed since the last run and transfer the
+    // previously discovered relevance scores to each band's copy of the data.
+    // Events that are no longer listed (including expired events) are moved to
+    // the site's removed list.
+    const bandChanges: EventChange[][] = [];
+    const bandSites = bands.map((band, i) => {
+      const out = getSitesForBand(sites, band);
+      const changes = trackEventChanges(
+        out,
+        previous[i],
+        run.startedAt.toISOString(),
+      );
+      updateRelevance(changes, band, rescore);
+      bandChanges.push(changes);
+      return out;
+    });
 
-  // Calculate the relevance of any events that don't have that data yet (ie.
-  // new events we just found and any events that were skipped on the last run
-  // due to the limit or errors)
-  await getRelevanceForEvents(sites, band, browser, limit, timeout);
+    // Load the descriptions of any events that don't have relevance data yet for
+    // at least one of the bands (ie. new events we just found and any events that
+    // were skipped on the last run due to the limit or errors). Events with a
+    // stored description are scored from it.
+    const needed = new Set(
+      bands.flatMap((band, i) =>
+        bandSites[i].flatMap(
+          (site) =>
+            site.events
+              ?.filter(
+                (event) =>
+                  !event.description &&
+                  needsEventDetails(event, band, maxFailures),
+              )
+              .map(getEventId) ?? [],
+        ),
+      ),
+    );
+    copyEventFailures(sites, bandSites);
+    await loadEventDescriptions(
+      sites,
+      websiteConfigs,
+      browser,
+      rescore ? Infinity : limit,
+      timeout,
+      (event) => needed.has(getEventId(event)),
+      scheduler,
+      artists,
+      cache,
+    );
+    writeCheckpoint();
+    await browser?.close();
 
-  // Clean up the output
-  const sitesToWrite = cleanUpEventsToWrite(sites);
+    const results: { band: BandConfig; newEvents: EventsResult[] }[] = [];
+    for (const [i, band] of bands.entries()) {
+      if (bands.length > 1)
+        console.log(chalk.blue(`\nResults for ${band.name}`));
 
-  // Find the events that haven't been seen before
-  const newEvents = determineNewEventsFound(sitesToWrite, previous, debug);
+      // Calculate the relevance of the events for this band.
+      copyEventDetails(bandSites[i], sites);
+      if (rescore) restoreRelevance(bandChanges[i], band);
+      scoreEvents(bandSites[i], band);
 
-  // Report any errors
-  reportErrors(sitesToWrite);
+      // Clean up the output
+      const sitesToWrite = cleanUpEventsToWrite(bandSites[i]);
 
-  // Write the newest remote results to the file. This should remove any out of
-  // date events.
-  await saveEvents(sitesToWrite, file);
+      // Find the events that haven't been seen before
+      const newEvents = determineNewEventsFound(sitesToWrite, debug);
 
-  // Summerize the new results
-  printRelevantEvents(band, newEvents);
+      // Report any errors
+      reportErrors(sitesToWrite);
 
-  // Return the new events so we can notify about them.
-  return newEvents;
+      // Write the newest remote results to the store. Events that are no longer
+      // listed won't be loaded on the next run.
+      await saveEvents(sitesToWrite, stores[i], run);
+
+      // Cache the artist bios with their matches for this band.
+      await stores[i].saveArtists(scoreArtists(artists.profiles(), band));
+
+      // Keep the triage decisions of events that were renamed or rescheduled.
+      if (moveTriageEntries(triages[i], bandChanges[i])) {
+        await stores[i].saveTriage(band.name, triages[i]);
+      }
+      stores[i].close();
+
+      // Summerize the new results
+      await reportRelevantEvents(band, newEvents, {
+        ...printOptions,
+        triage: triages[i],
+      });
+      printEventChanges(band, bandChanges[i]);
+
+      results.push({ band, newEvents });
+    }
+
+    await removeCheckpoint(checkpointFile);
+
+    // Return the new events so we can notify about them.
+    return results;
+  } catch (e) {
+    writeCheckpoint();
+    throw e;
+  } finally {
+    process.off("SIGINT", onInterrupt);
+    process.off("SIGTERM", onInterrupt);
+  }
 }
 
 /**
- * Console print the relevant events for a band.
+ * Get the relevant events for a band ranked by relevance score (or in
+ * chronological order). Events that have already happened are skipped unless
+ * `includePast` is set and events the band ignored are always skipped.
  */
-export function printRelevantEvents(
+export function getRelevantEvents(
   band: BandConfig,
   eventsResults: EventsResult[],
+  { includePast = false, sort = "score", triage }: PrintOptions = {},
+): EventsResult[] {
+  return eventsResults.map((site) => {
+    const events = (site.events ?? []).filter(
+      (e) =>
+        // Skip events that didn't score high enough
+        isRelevant(e, band) &&
+        // Skip shows that have already happened
+        (includePast || !isPastEvent(e)) &&
+        // Skip events that match the band filter
+        !isFilteredEvent(e, band) &&
+        // Skip events the band decided to ignore
+        !isIgnoredEvent(e, triage),
+    );
+    events.sort((a, b) =>
+      sort === "date"
+        ? compareEventDates(a, b)
+        : compareEventScores(a, b) || compareEventDates(a, b),
+    );
+    return { ...site, events };
+  });
+}
+
+/**
+ * Console print an event's details along with who to pitch at the venue.
+ */
+function printEvent(
+  band: BandConfig,
+  site: EventsResult,
+  event: Event,
+  triage?: Triage,
 ) {
-  const relevantEventCount = eventsResults.reduce((acc, site) => {
-    return (
-      acc + (site.events?.filter((e) => !!e.relevance?.length).length ?? 0)
+  const venue = getBandVenueDetails(band, site);
+  console.log(`  Event: ${chalk.green(event.name || "Unknown")}`);
+  console.log(`    Date: ${chalk.cyan(formatEventDate(event))}`);
+  console.log(`    Venue: ${chalk.blue(formatVenue(venue))}`);
+  console.log(`    Pitch: ${chalk.yellow(venue.pitch)}`);
+  if (event.detailLink) {
+    console.log(`    Detail Link: ${chalk.red(event.detailLink)}`);
+  }
+  if (event.score != null) {
+    console.log(
+      `    Score: ${chalk.magenta(event.score)} (${event.matches?.join(", ")})`,
+    );
+  }
+  if (event.lineup && event.lineup.length > 1) {
+    console.log(`    Lineup:`);
+    for (const artist of event.lineup) {
+      const matches = artist.filtered
+        ? chalk.gray("filtered")
+        : `${chalk.magenta(artist.score ?? 0)} (${artist.matches?.join(", ")})`;
+      console.log(`      ${chalk.green(artist.name)}: ${matches}`);
+    }
+  }
+  if (event.relevance && event.relevance.length > 0) {
+    const highlightedRelevance = event.relevance.map((rel) =>
+      highlightTerms(rel, band.genres, (match) => chalk.bold.blue(match)),
     );
-  }, 0);
+    console.log(`    Relevance: ${highlightedRelevance.join("\n")}`);
+    // console.log(`    Relevance: \n${event.relevance.join("\n")}`);
+  }
+  const note = getTriageEntry(event, triage)?.note;
+  if (note) console.log(`    Note: ${chalk.yellow(note)}`);
+}
+
+/**
+ * Console print the relevant events for a band (see `getRelevantEvents`)
+ * grouped by their triage status.
+ */
+export function printRelevantEvents(
+  band: BandConfig,
+  eventsResults: EventsResult[],
+  printOptions: PrintOptions = {},
+) {
+  const { triage } = printOptions;
+  const sites = getRelevantEvents(band, eventsResults, printOptions);
+  const relevantEventCount = countEvents(sites);
 
   if (relevantEventCount > 0) {
     console.log(`Found ${chalk.green(relevantEventCount)} relevant events:`);
@@ -268,65 +774,108 @@ export function printRelevantEvents(
     console.log("No relevant events found");
   }
 
-  // Group and print events by website URL
-  for (const site of eventsResults) {
-    console.log(`Website: ${chalk.blue(site.url)}`);
-
-    if (!site.events || site.events.length === 0) {
-      console.log(chalk.yellow("  No events found for this website."));
-      continue;
+  const groups = groupByTriageStatus(sites, triage);
+  for (const group of groups) {
+    if (groups.length > 1 || group.status) {
+      const title = TRIAGE_TITLES[group.status ?? "untriaged"];
+      console.log(chalk.bold(`${title}: ${countEvents(group.sites)}`));
     }
 
-    const events = site.events.filter((e) => {
-      // Skip events that don't have a relevance value
-      if (!e.relevance?.length) return false;
-      // Skip events that match the band filter
-      if (band.filter) {
-        if (
-          band.filter.some((f) =>
-            typeof f === "string" ? e.name?.includes(f) : f.test(e.name || ""),
-          )
-        ) {
-          return false;
-        }
+    // Group and print events by website URL
+    for (const site of group.sites) {
+      console.log(`Website: ${chalk.blue(site.url)}`);
+
+      if (!site.events || site.events.length === 0) {
+        console.log(chalk.yellow("  No events found for this website."));
+        continue;
       }
-      return true;
-    });
 
-    for (const event of events) {
-      console.log(`  Event: ${chalk.green(event.name || "Unknown")}`);
-      console.log(`    Date: ${chalk.cyan(event.date || "Unknown")}`);
-      if (event.detailLink) {
-        console.log(`    Detail Link: ${chalk.red(event.detailLink)}`);
+      for (const event of site.events) {
+        printEvent(band, site, event, triage);
+        console.log(""); // Add spacing between events
       }
-      if (event.relevance && event.relevance.length > 0) {
-        const highlightedRelevance = event.relevance.map((rel) => {
-          let highlighted = rel;
-          band.genres.forEach((genre) => {
-            const regex = new RegExp(genre, "gi");
-            highlighted = highlighted.replace(regex, chalk.bold.blue(genre));
-          });
-          return highlighted;
-        });
-        console.log(`    Relevance: ${highlightedRelevance.join("\n")}`);
-        // console.log(`    Relevance: \n${event.relevance.join("\n")}`);
+    }
+  }
+}
+
+/**
+ * Output the relevant events for a band in the requested format. Text is
+ * printed to the console while the other formats are written to the `output`
+ * file (or stdout when there isn't one).
+ */
+export async function reportRelevantEvents(
+  band: BandConfig,
+  eventsResults: EventsResult[],
+  printOptions: PrintOptions = {},
+) {
+  const { format = "text", output } = printOptions;
+  if (format === "text") {
+    printRelevantEvents(band, eventsResults, printOptions);
+    return;
+  }
+
+  const data = formatEvents(
+    format,
+    band,
+    getRelevantEvents(band, eventsResults, printOptions),
+  );
+  if (!output) {
+    process.stdout.write(data);
+    return;
+  }
+
+  const file = getBandFile(output, band);
+  await writeFile(file, data);
+  spinner.succeed(`Relevant events written to ${chalk.green(file)}`);
+}
+
+/**
+ * Console print the shows we were tracking (ie. that were relevant to the band)
+ * that have been cancelled, rescheduled or are no longer listed.
+ */
+export function printEventChanges(band: BandConfig, changes: EventChange[]) {
+  const { cancelled, rescheduled, removed } = findTrackedChanges(
+    changes,
+    (event) => isRelevant(event, band),
+  );
+
+  const sections: [string, EventChange[]][] = [
+    ["Cancelled or postponed", cancelled],
+    ["Rescheduled", rescheduled],
+    ["No longer listed", removed],
+  ];
+  for (const [title, list] of sections) {
+    if (!list.length) continue;
+
+    console.log(`${title}: ${chalk.yellow(list.length)}`);
+    for (const { site, event, previous, changes } of list) {
+      console.log(`  Event: ${chalk.green(previous?.name || event.name)}`);
+      console.log(`    Website: ${chalk.blue(site)}`);
+      console.log(`    Date: ${chalk.cyan(formatEventDate(event))}`);
+      for (const change of changes) {
+        console.log(
+          `    ${change.field}: ${chalk.red(change.from ?? "none")} -> ${chalk.green(change.to ?? "none")}`,
+        );
       }
-      console.log(""); // Add spacing between events
+      console.log("");
     }
   }
 }
 
 /**
- * Print all relevant events from the specified file.
+ * Print all relevant events from the latest run saved in the specified file.
  */
-export async function list(band: BandConfig, file: string) {
+export async function list(
+  band: BandConfig,
+  file: string,
+  printOptions: PrintOptions = {},
+) {
+  const store = await openExistingEventStore(file);
   spinner.start("Reading previous gigs");
 
   try {
-    // Read and parse the file
-    await access(file, constants.F_OK);
-    const data = await readFile(file, "utf-8");
-    const eventsResults: EventsResult[] = JSON.parse(data);
+    const eventsResults = await store.load();
+    const triage = await store.loadTriage(band.name);
 
     if (eventsResults.length === 0) {
       spinner.warn("No events found in the file.");
@@ -337,10 +886,211 @@ export async function list(band: BandConfig, file: string) {
       `${chalk.green(countEvents(eventsResults))} previous gigs loaded`,
     );
 
-    // Group and print events by website URL
-    printRelevantEvents(band, eventsResults);
-  } catch (error) {
-    console.error(chalk.red(`Error reading or parsing file: ${file}`));
-    console.error(error);
+    // Group and print events by triage status and website URL
+    await reportRelevantEvents(withIgnoreRules(band, triage), eventsResults, {
+      ...printOptions,
+      triage,
+    });
+  } finally {
+    store.close();
+  }
+}
+
+/**
+ * Summarize the errors of each of the band's sites over the latest runs so
+ * that flaky sites can be told apart from broken site configs.
+ */
+export async function errorReport(band: BandConfig, file: string, runs = 10) {
+  const store = await openExistingEventStore(file);
+  try {
+    const history = await store.loadErrors(runs);
+    if (!history.runs.length) {
+      spinner.warn("No runs found in the file.");
+      return;
+    }
+
+    spinner.info(
+      `${chalk.red(history.errors.length)} errors in the last ${chalk.green(history.runs.length)} runs`,
+    );
+    printErrorSummary(
+      summarizeErrors(
+        history,
+        band.websiteConfigs.map((c) => c.url),
+      ),
+    );
+  } finally {
+    store.close();
+  }
+}
+
+/**
+ * Score the stored events again against the band's current genres and filters
+ * without scraping and print the events that became relevant.
+ */
+export async function rescore(
+  band: BandConfig,
+  file: string,
+  printOptions: Pick<PrintOptions, "includePast" | "sort"> = {},
+) {
+  const store = await openExistingEventStore(file);
+  try {
+    const sites = await store.load();
+    const triage = await store.loadTriage(band.name);
+    const wasRelevant = new Set(
+      sites.flatMap(
+        (site) =>
+          site.events
+            ?.filter((event) => isRelevant(event, band))
+            .map(getEventId) ?? [],
+      ),
+    );
+
+    const count = rescoreEvents(sites, band);
+    await store.updateEvents(sites);
+    spinner.succeed(
+      `${chalk.green(count)} of ${chalk.green(countEvents(sites))} stored events scored again`,
+    );
+    const missing = countEvents(sites) - count;
+    if (missing > 0) {
+      spinner.warn(
+        `${chalk.yellow(missing)} events were saved without a description and kept their previous scores`,
+      );
+    }
+
+    // Only report the newly relevant events the band hasn't ignored.
+    const relevant = getRelevantEvents(withIgnoreRules(band, triage), sites, {
+      ...printOptions,
+      triage,
+    });
+    const newlyRelevant = relevant
+      .map((site) => ({
+        ...site,
+        events: site.events?.filter((e) => !wasRelevant.has(getEventId(e))),
+      }))
+      .filter((site) => site.events?.length);
+    const noLongerRelevant = sites.flatMap(
+      (site) =>
+        site.events?.filter(
+          (e) => wasRelevant.has(getEventId(e)) && !isRelevant(e, band),
+        ) ?? [],
+    );
+
+    if (!newlyRelevant.length) {
+      console.log("No events became relevant");
+    } else {
+      console.log(
+        `${chalk.green(countEvents(newlyRelevant))} events are now relevant:`,
+      );
+      for (const site of newlyRelevant) {
+        console.log(`Website: ${chalk.blue(site.url)}`);
+        for (const event of site.events ?? []) {
+          printEvent(band, site, event, triage);
+          console.log("");
+        }
+      }
+    }
+    if (noLongerRelevant.length) {
+      console.log(
+        `${chalk.yellow(noLongerRelevant.length)} events are no longer relevant`,
+      );
+    }
+  } finally {
+    store.close();
+  }
+}
+
+/**
+ * Print the artists from the cached lineups of the band's venues whose bios
+ * match the band's genres. These are the local acts the band could share a
+ * bill with.
+ */
+export async function listArtists(band: BandConfig, file: string) {
+  const store = await openExistingEventStore(file);
+  try {
+    printArtists(band, getBandArtists(await store.loadArtists(), band));
+  } finally {
+    store.close();
+  }
+}
+
+/**
+ * Options for the triage command.
+ */
+export interface TriageOptions extends Pick<
+  PrintOptions,
+  "includePast" | "sort"
+> {
+  /**
+   * Also go through the events that have already been triaged.
+   */
+  all?: boolean;
+}
+
+/**
+ * Walk through the relevant events from the latest run and ask what to do
+ * about each one. Decisions are saved as they are made so the triage can be
+ * stopped at any time.
+ */
+export async function triage(
+  band: BandConfig,
+  file: string,
+  { all = false, ...printOptions }: TriageOptions = {},
+) {
+  const store = await openExistingEventStore(file);
+  const prompt = createPrompt();
+
+  try {
+    const eventsResults = await store.load();
+    const decisions = await store.loadTriage(band.name);
+
+    const events = getRelevantEvents(
+      withIgnoreRules(band, decisions),
+      eventsResults,
+      printOptions,
+    ).flatMap((site) =>
+      (site.events ?? [])
+        .filter((event) => all || !getTriageEntry(event, decisions))
+        .map((event) => ({ site, event })),
+    );
+    if (!events.length) {
+      spinner.succeed("No events left to triage");
+      return;
+    }
+
+    let ignoredActs: string[] = [];
+    for (const [i, { site, event }] of events.entries()) {
+      // Skip the events of acts that were ignored during this triage.
+      if (isFilteredEvent(event, { filter: ignoredActs })) continue;
+
+      const current = getTriageEntry(event, decisions);
+      console.log(chalk.blue(`\n[${i + 1}/${events.length}] ${site.url}`));
+      printEvent(band, site, event, decisions);
+      if (current) {
+        console.log(
+          `    Status: ${chalk.magenta(TRIAGE_TITLES[current.status])}`,
+        );
+      }
+
+      const decision = await promptForTriage(prompt, event, current);
+      if (decision.type === "quit") break;
+      if (decision.type === "skip") continue;
+
+      if (decision.type === "ignore") {
+        addIgnoreRule(decisions, decision.pattern, decision.note);
+        ignoredActs = [...ignoredActs, decision.pattern];
+        spinner.succeed(
+          `Ignoring ${chalk.green(decision.pattern)} from now on`,
+        );
+      } else {
+        setTriageStatus(decisions, event, decision.status, decision.note);
+        spinner.succeed(
+          `Marked as ${chalk.green(TRIAGE_TITLES[decision.status])}`,
+        );
+      }
+      await store.saveTriage(band.name, decisions);
+    }
+  } finally {
+    prompt.close();
+    store.close();
   }
 }
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { test } from "node:test";
+
+import { createHttpPage } from "./http-page";
+import { createScheduler } from "./scheduler";
+import { getRelevanceForEvents, loadAllEventSummaries } from "./scraper";
+import { extractEventFields } from "./selectors";
+import { loadStructuredEvents } from "./structured-data";
+import type { BandConfig, WebsiteConfig } from "./types";
+
+const PAGES: Record<string, string> = {
+  "/events": `
+    <article>
+      <h2>Funk Night</h2>
+      <time datetime="2099-12-04">Fri Dec 4</time>
+      <a href="/events/funk-night">More</a>
+    </article>
+    <a rel="next" href="/events?page=2">Next</a>
+    <script>document.body.innerHTML = "";</script>`,
+  "/events?page=2": `
+    <article>
+      <h2>Folk Night</h2>
+      <time datetime="2099-12-05">Sat Dec 5</time>
+      <a href="/events/folk-night">More</a>
+    </article>`,
+  "/events/funk-night": `<main><p>A night of funk.</p></main>`,
+  "/events/folk-night": `<main><p>Quiet folk songs.</p></main>`,
+  "/structured": `
+    <script type="application/ld+json">
+      {"@type": "MusicEvent", "name": "Soul Revue", "startDate": "2099-12-06"}
+    </script>`,
+};
+
+async function startServer() {
+  const server = http.createServer((request, response) => {
+    const page = PAGES[request.url ?? "/"];
+    if (!page) {
+      response.writeHead(500).end("Server error");
+      return;
+    }
+    response.writeHead(200, { "content-type": "text/html" });
+    response.end(`<!doctype html><html><body>${page}</body></html>`);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+test("the http page runs the selectors against the fetched HTML", async () => {
+  const server = await startServer();
+  const page = createHttpPage();
+  try {
+    const response = await page.goto(`${server.url}/events`);
+    assert.equal(response?.status(), 200);
+    assert.equal(page.url(), `${server.url}/events`);
+    // The page's scripts aren't run.
+    assert.deepEqual(
+      await extractEventFields(page, "article", {
+        name: { xpath: ".//h2/text()" },
+        date: { css: "time", attribute: "datetime" },
+        link: "a",
+      }),
+      [{ name: "Funk Night", date: "2099-12-04", link: "More" }],
+    );
+    await assert.rejects(page.waitForSelector(".missing"), {
+      name: "TimeoutError",
+    });
+
+    await page.goto(`${server.url}/structured`);
+    assert.deepEqual(
+      (await loadStructuredEvents(page)).map((event) => event.name),
+      ["Soul Revue"],
+    );
+
+    const error = await page.goto(`${server.url}/missing`);
+    assert.equal(error?.status(), 500);
+  } finally {
+    await page.close();
+    await server.close();
+  }
+});
+
+test("http engine sites are scraped without a browser", async () => {
+  const server = await startServer();
+  const site: WebsiteConfig = {
+    url: `${server.url}/events`,
+    engine: "http",
+    selectors: {
+      event: "article",
+      date: { css: "time", attribute: "datetime" },
+      name: "h2",
+      nextPageLink: "a[rel=next]",
+      detailLink: "a",
+      description: [{ domain: "127.0.0.1", description: "main" }],
+    },
+  };
+  const band: BandConfig = {
+    name: "Moongold",
+    genres: ["funk"],
+    sites: [],
+    websiteConfigs: [site],
+  };
+  const scheduler = createScheduler({
+    defaultRateLimit: { concurrency: 1, delay: 0 },
+  });
+
+  try {
+    const sites = await loadAllEventSummaries([site], [], undefined, 1000, {
+      scheduler,
+    });
+    await getRelevanceForEvents(sites, band, undefined, 10, 1000, scheduler);
+    assert.deepEqual(sites[0].errors ?? [], []);
+    assert.deepEqual(
+      sites[0].events?.map((event) => [
+        event.name,
+        event.detailLink,
+        event.page,
+        event.relevance?.length,
+      ]),
+      [
+        ["Funk Night", `${server.url}/events/funk-night`, 0, 1],
+        ["Folk Night", `${server.url}/events/folk-night`, 1, 0],
+      ],
+    );
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,141 @@
+import { JSDOM } from "jsdom";
+import vm from "node:vm";
+
+import type { CachedPage } from "./types";
+import type { ScrapePage } from "./browser";
+import type { PageCache } from "./page-cache";
+import { createScrapeError } from "./retry";
+
+const USER_AGENT =
+  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36";
+
+/**
+ * Copy a value the way puppeteer passes values in and out of the browser so
+ * that both engines behave the same.
+ */
+function serialize<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Fetch the page. The cached page is revalidated with its `ETag` and
+ * `Last-Modified` validators so that it is reused when it hasn't changed.
+ */
+async function fetchPage(
+  link: string,
+  timeout: number,
+  cached?: CachedPage,
+): Promise<CachedPage> {
+  const headers: Record<string, string> = { "user-agent": USER_AGENT };
+  if (cached?.etag) headers["if-none-match"] = cached.etag;
+  if (cached?.lastModified) headers["if-modified-since"] = cached.lastModified;
+
+  let response: Response;
+  try {
+    response = await fetch(link, {
+      headers,
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (e) {
+    if ((e as Error).name === "TimeoutError") throw e;
+    throw createScrapeError("network", `${e} loading ${link}`, {
+      cause: e,
+    });
+  }
+
+  const fetched = new Date().toISOString();
+  if (response.status === 304 && cached) return { ...cached, fetched };
+  return {
+    url: link,
+    finalUrl: response.url || link,
+    status: response.status,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    fetched,
+    html: await response.text(),
+  };
+}
+
+/**
+ * Create a page that fetches the HTML over HTTP and parses it without running
+ * any of the page's scripts. The page functions given to `$$eval`, `$eval` and
+ * `evaluate` are run against the parsed document just like in the browser.
+ * Pages are read from the cache first when one is given.
+ */
+export function createHttpPage(timeout = 10000, cache?: PageCache): ScrapePage {
+  let dom: JSDOM | undefined;
+  let url = "about:blank";
+
+  // Run the page function in the document's window so that it sees the same
+  // globals (`document`, `XPathResult`, ...) as in the browser.
+  const run = async <Func extends (...args: never[]) => unknown>(
+    fn: Func,
+    args: unknown[],
+  ): Promise<Awaited<ReturnType<Func>>> => {
+    if (!dom) throw new Error("The page hasn't been loaded");
+    const pageFunction = vm.runInContext(
+      `(${fn.toString()})`,
+      dom.getInternalVMContext(),
+    );
+    return serialize(await pageFunction(...args));
+  };
+  const querySelectorAll = (selector: string) =>
+    Array.from(dom?.window.document.querySelectorAll(selector) ?? []);
+
+  const load = async (link: string) => {
+    const cached = await cache?.get(link);
+    if (cached && cache?.canReuse(cached)) return cached;
+    if (cache?.offline) {
+      throw createScrapeError("cache", `${link} isn't in the page cache`);
+    }
+
+    const page = await fetchPage(link, timeout, cached);
+    if (cache && page.status < 400) await cache.set(page);
+    return page;
+  };
+
+  return {
+    async goto(link) {
+      const loaded = await load(link);
+      url = loaded.finalUrl;
+      dom?.window.close();
+      dom = new JSDOM(loaded.html, { url, runScripts: "outside-only" });
+      return { status: () => loaded.status };
+    },
+    url() {
+      return url;
+    },
+    $$eval(selector, fn, ...args) {
+      return run(fn, [querySelectorAll(selector), ...serialize(args)]);
+    },
+    $eval(selector, fn, ...args) {
+      const [element] = querySelectorAll(selector);
+      if (!element) {
+        return Promise.reject(
+          new Error(
+            `Error: failed to find element matching selector "${selector}"`,
+          ),
+        );
+      }
+      return run(fn, [element, ...serialize(args)]);
+    },
+    evaluate(fn, ...args) {
+      return run(fn, serialize(args));
+    },
+    // The document doesn't change after it is parsed so the selector either
+    // matches now or never will.
+    async waitForSelector(selector) {
+      const [element] = querySelectorAll(selector);
+      if (!element) {
+        const error = new Error(`Waiting for selector \`${selector}\` failed`);
+        error.name = "TimeoutError";
+        throw error;
+      }
+      return null;
+    },
+    async close() {
+      dom?.window.close();
+      dom = undefined;
+    },
+  };
+}
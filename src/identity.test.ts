@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { canonicalizeUrl, resolveUrl } from "./identity";
+
+const PAGE = "https://www.venue.example.com/events?page=2";
+
+test("resolveUrl resolves relative links against the page", () => {
+  assert.equal(
+    resolveUrl("/events/funk-night/", PAGE),
+    "https://www.venue.example.com/events/funk-night/",
+  );
+  // The link is loaded as it is, hash routes included.
+  assert.equal(
+    resolveUrl("#/events/funk-night?ref=list", PAGE),
+    "https://www.venue.example.com/events?page=2#/events/funk-night?ref=list",
+  );
+  assert.equal(
+    resolveUrl(" https://tickets.example.com/e/1?b=2&a=1&fbclid=x ", PAGE),
+    "https://tickets.example.com/e/1?b=2&a=1&fbclid=x",
+  );
+});
+
+test("canonicalizeUrl drops tracking parameters, the hash and trailing slashes", () => {
+  assert.equal(
+    canonicalizeUrl(
+      "https://www.venue.example.com/funk-night/?utm_source=list#tickets",
+    ),
+    "https://www.venue.example.com/funk-night",
+  );
+  assert.equal(
+    canonicalizeUrl("https://tickets.example.com/e/1?b=2&a=1&fbclid=x"),
+    "https://tickets.example.com/e/1?a=1&b=2",
+  );
+});
+
+test("resolveUrl drops links that aren't web pages", () => {
+  assert.equal(resolveUrl(null, PAGE), null);
+  assert.equal(resolveUrl("  ", PAGE), null);
+  assert.equal(resolveUrl("mailto:booking@example.com", PAGE), null);
+  assert.equal(resolveUrl("javascript:void(0)", PAGE), null);
+});
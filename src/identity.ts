@@ -0,0 +1,110 @@
+import { Event, Nilable } from "./types";
+import { normalizeWhitespace } from "./util";
+
+/**
+ * Query parameters that are only used for tracking and don't change the page
+ * being linked to.
+ */
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^fbclid$/i,
+  /^gclid$/i,
+  /^dclid$/i,
+  /^msclkid$/i,
+  /^mc_[ce]id$/i,
+  /^_ga$/i,
+  /^_gl$/i,
+  /^igshid$/i,
+  /^aff$/i,
+  /^ref$/i,
+];
+
+/**
+ * Normalize an event name so that differences in case, whitespace and
+ * punctuation don't change the event identity.
+ */
+export function normalizeEventName(name: Nilable<string>) {
+  return normalizeWhitespace(
+    (name ?? "")
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/&/g, " and ")
+      .replace(/[^\p{L}\p{N}]+/gu, " "),
+  );
+}
+
+/**
+ * Get the canonical form of a link by removing tracking parameters, the hash
+ * and any trailing slash. Links that can't be parsed are returned trimmed.
+ */
+export function canonicalizeUrl(url: Nilable<string>) {
+  const link = (url ?? "").trim();
+  if (!link) return "";
+
+  let parsed: URL;
+  try {
+    parsed = new URL(link);
+  } catch (e) {
+    return link;
+  }
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.some((pattern) => pattern.test(key))) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  parsed.hash = "";
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Resolve a link read from a page (which may be relative) against the page url.
+ * The link is loaded as it is (see `canonicalizeUrl` for the form used to
+ * identify and store it). Returns `null` for empty links and links that aren't
+ * web pages (ex. "mailto:" or "javascript:").
+ */
+export function resolveUrl(link: Nilable<string>, base: string) {
+  const href = (link ?? "").trim();
+  if (!href) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(href, base);
+  } catch (e) {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+  return parsed.toString();
+}
+
+/**
+ * Get a stable identity for an event built from the normalized name, the parsed
+ * date (or the raw date text if it couldn't be parsed) and the canonical detail
+ * link. This is used to match events across "load more" pages and across runs.
+ */
+export function getEventId(event: Event) {
+  return [
+    normalizeEventName(event.name),
+    event.isoDate || normalizeWhitespace(event.date).toLowerCase(),
+    canonicalizeUrl(event.detailLink),
+  ].join("|");
+}
+
+/**
+ * Get the absolute link to the event detail page, falling back to the venue
+ * website when the event doesn't have one.
+ */
+export function getEventUrl(siteUrl: string, detailLink: Nilable<string>) {
+  if (!detailLink) return siteUrl;
+  try {
+    return new URL(detailLink, siteUrl).toString();
+  } catch (e) {
+    return detailLink;
+  }
+}
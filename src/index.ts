@@ -1,57 +1,70 @@
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 
-import { config as moongold } from "./config/moongold";
-import { websiteConfig } from "./config/sites";
-import { list, search } from "./gig-check";
-import { BandBaseConfiguration } from "./types";
+import {
+  DEFAULT_CONFIG_DIR,
+  getBandConfig,
+  getBandConfigs,
+  loadRateLimits,
+  loadWebsiteConfigs,
+} from "./config-loader";
+import { DEFAULT_ARTIST_TTL } from "./artists";
+import { getDateHorizon } from "./dates";
+import { record } from "./fixtures";
+import { OUTPUT_FORMATS } from "./formats";
+import {
+  errorReport,
+  getBandFile,
+  list,
+  listArtists,
+  rescore,
+  search,
+  triage,
+} from "./gig-check";
+import { notify } from "./notifiers";
+import { DEFAULT_PAGE_CACHE_DIR, DEFAULT_PAGE_TTL } from "./page-cache";
+import { DEFAULT_RETRY_OPTIONS } from "./retry";
+import { DEFAULT_CONCURRENCY, DEFAULT_RATE_LIMIT } from "./scheduler";
+import { importEvents } from "./store";
+import { validate } from "./validate";
 
-function configFactory(band: BandBaseConfiguration) {
-  return {
-    ...band,
-    websiteConfigs: band.sites
-      .map((website) => {
-        const site = websiteConfig[website];
-        if (!site)
-          console.warn(
-            `Unable to find ${band.name} website config for ${website}`,
-          );
-        return site;
-      })
-      .filter((c) => !!c),
-  };
-}
-
-/**
- * Load the config for the specified band.
- */
-function getBandConfig(band: string) {
-  switch (band) {
-    case "moongold":
-      return configFactory(moongold);
-    default:
-      throw new Error(`No config found for band ${band}`);
-  }
-}
+const DEFAULT_GIGS_FILE = "./gigs.db";
 
 yargs(hideBin(process.argv))
   .usage("Usage: $0 <command> [options]")
+  .option("config", {
+    alias: "c",
+    type: "string",
+    description: "Path to a band config file (JSON or YAML).",
+  })
+  .option("config-dir", {
+    type: "string",
+    default: DEFAULT_CONFIG_DIR,
+    description: "Directory containing the bands and sites config folders.",
+  })
   .command(
-    ["search <band>", "$0"],
+    ["search [bands..]", "$0"],
     "Search for interesting events.",
     (yargs) => {
       return yargs
-        .positional("band", {
-          describe: "The name of the band to search for.",
+        .positional("bands", {
+          describe:
+            "The names of the bands to search for. Not needed when using --config or --all.",
           type: "string",
-          demandOption: true,
-          required: true,
+          array: true,
+        })
+        .option("all", {
+          alias: "a",
+          type: "boolean",
+          description:
+            "Search for every band in the config directory using a single scrape.",
         })
         .option("file", {
           alias: "f",
           type: "string",
-          default: "./gigs.json",
-          description: "Path to the file containing the list of gigs.",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database. Files ending in .json are stored as JSON instead of SQLite. Use {band} in the file name to give each band its own file (required when searching for several bands).",
         })
         .option("timeout", {
           alias: "t",
@@ -63,19 +76,164 @@ yargs(hideBin(process.argv))
           alias: "l",
           type: "number",
           default: 40,
-          description: "Limit the number of gig details to check.",
+          description: "Limit the number of gig details to check per site.",
+        })
+        .option("concurrency", {
+          type: "number",
+          default: DEFAULT_CONCURRENCY,
+          description: "The number of pages to load at the same time.",
+        })
+        .option("delay", {
+          type: "number",
+          default: DEFAULT_RATE_LIMIT.delay,
+          description:
+            "Milliseconds to wait between page loads from the same domain (for domains without a rate limit in config/rate-limits).",
+        })
+        .option("retries", {
+          type: "number",
+          default: DEFAULT_RETRY_OPTIONS.retries,
+          description:
+            "How many times to retry a page that timed out or failed with a network or server error.",
+        })
+        .option("backoff", {
+          type: "number",
+          default: DEFAULT_RETRY_OPTIONS.backoff,
+          description:
+            "Milliseconds to wait before the first retry. The wait doubles with each retry.",
+        })
+        .option("max-failures", {
+          type: "number",
+          default: DEFAULT_RETRY_OPTIONS.maxFailures,
+          description:
+            "The number of searches an event's details can fail to load before it's no longer retried.",
+        })
+        .option("resume", {
+          type: "boolean",
+          default: true,
+          description:
+            "Continue an interrupted search from its checkpoint. Use --no-resume to start over.",
+        })
+        .option("screenshots", {
+          type: "string",
+          description:
+            "Directory to save screenshots of the pages that fail to load.",
+        })
+        .option("artist-ttl", {
+          type: "number",
+          default: DEFAULT_ARTIST_TTL,
+          description:
+            "Days to reuse the cached bios of lineup artists before loading them again.",
+        })
+        .option("cache", {
+          type: "boolean",
+          default: true,
+          description:
+            "Reuse the pages loaded by recent searches. Use --no-cache to load every page again.",
+        })
+        .option("cache-only", {
+          type: "boolean",
+          description:
+            "Only use cached pages, without any network access (ex. to score the events again after changing the genres).",
+        })
+        .option("cache-dir", {
+          type: "string",
+          default: DEFAULT_PAGE_CACHE_DIR,
+          description: "Directory to cache the loaded pages in.",
+        })
+        .option("cache-ttl", {
+          type: "number",
+          default: DEFAULT_PAGE_TTL,
+          description:
+            "Hours to reuse a cached page before loading it again. Pages from the http engine are revalidated so unchanged pages aren't downloaded again.",
         })
         .option("debug", {
           alias: "d",
           type: "boolean",
           description: "Enable debug mode (non-headless browsing).",
+        })
+        .option("weeks", {
+          alias: "w",
+          type: "number",
+          description:
+            "Only look for events happening within this many weeks from today.",
+        })
+        .option("until", {
+          alias: "u",
+          type: "string",
+          description: "Only look for events happening on or before this date.",
+        })
+        .option("sort", {
+          alias: "s",
+          choices: ["score", "date"] as const,
+          default: "score" as const,
+          description: "Order relevant events by score or by date.",
+        })
+        .option("format", {
+          choices: OUTPUT_FORMATS,
+          default: "text" as const,
+          description:
+            "How to output the relevant events. Formats other than text are written to --output, which is required for them.",
+        })
+        .option("output", {
+          alias: "o",
+          type: "string",
+          description:
+            "File to write the formatted events to. Use {band} in the file name for the band name.",
+        })
+        .option("notify", {
+          type: "boolean",
+          default: true,
+          description:
+            "Send new relevant events to the band's notification sinks. Use --no-notify to skip.",
         });
     },
     async (argv) => {
       try {
-        const config = getBandConfig(argv.band);
-        await search(config, argv.file, argv.limit, argv.timeout, argv.debug);
-        process.exit(0);
+        const configs = await getBandConfigs(argv.bands ?? [], {
+          configFile: argv.config,
+          configDir: argv.configDir,
+          all: argv.all,
+        });
+        const results = await search(configs, argv.file, {
+          limit: argv.limit,
+          timeout: argv.timeout,
+          debug: argv.debug,
+          maxDate: getDateHorizon(argv.weeks, argv.until),
+          printOptions: {
+            sort: argv.sort,
+            format: argv.format,
+            output: argv.output,
+          },
+          schedulerOptions: {
+            concurrency: argv.concurrency,
+            defaultRateLimit: { delay: argv.delay },
+            rateLimits: await loadRateLimits(argv.configDir),
+            retry: {
+              retries: argv.retries,
+              backoff: argv.backoff,
+              maxFailures: argv.maxFailures,
+            },
+          },
+          resume: argv.resume,
+          screenshotDir: argv.screenshots,
+          artistTtl: argv.artistTtl,
+          pageCacheOptions:
+            argv.cache || argv.cacheOnly
+              ? {
+                  dir: argv.cacheDir,
+                  ttl: argv.cacheTtl,
+                  offline: argv.cacheOnly,
+                }
+              : undefined,
+        });
+
+        let failedNotifications = 0;
+        if (argv.notify) {
+          for (const { band, newEvents } of results) {
+            failedNotifications += await notify(band, newEvents);
+          }
+        }
+        process.exit(failedNotifications ? 1 : 0);
       } catch (e) {
         console.error("Error:", e);
         process.exit(1);
@@ -83,27 +241,353 @@ yargs(hideBin(process.argv))
     },
   )
   .command(
-    "list <band>",
+    "list [band]",
     "List relevant events from previous runs.",
     (yargs) => {
       return yargs
         .positional("band", {
-          describe: "The name of the band to list events for.",
+          describe:
+            "The name of the band to list events for. Not needed when using --config.",
+          type: "string",
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database (or .json file). Use {band} in the file name for the band name.",
+        })
+        .option("past", {
+          type: "boolean",
+          default: false,
+          description: "Include events that have already happened.",
+        })
+        .option("sort", {
+          alias: "s",
+          choices: ["score", "date"] as const,
+          default: "score" as const,
+          description: "Order relevant events by score or by date.",
+        })
+        .option("format", {
+          choices: OUTPUT_FORMATS,
+          default: "text" as const,
+          description:
+            "How to output the relevant events. Formats other than text are written to --output or stdout.",
+        })
+        .option("output", {
+          alias: "o",
+          type: "string",
+          description:
+            "File to write the formatted events to. Use {band} in the file name for the band name.",
+        });
+    },
+    async (argv) => {
+      try {
+        const config = await getBandConfig(argv.band, {
+          configFile: argv.config,
+          configDir: argv.configDir,
+        });
+        await list(config, getBandFile(argv.file, config), {
+          includePast: argv.past,
+          sort: argv.sort,
+          format: argv.format,
+          output: argv.output,
+        });
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "errors [band]",
+    "Summarize the errors of each site over the latest runs.",
+    (yargs) => {
+      return yargs
+        .positional("band", {
+          describe:
+            "The name of the band whose sites to check. Not needed when using --config.",
+          type: "string",
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database (or .json file). Use {band} in the file name for the band name.",
+        })
+        .option("runs", {
+          alias: "r",
+          type: "number",
+          default: 10,
+          description: "The number of latest runs to summarize.",
+        });
+    },
+    async (argv) => {
+      try {
+        const config = await getBandConfig(argv.band, {
+          configFile: argv.config,
+          configDir: argv.configDir,
+        });
+        await errorReport(config, getBandFile(argv.file, config), argv.runs);
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "artists [band]",
+    "List the artists from the lineups at the band's venues whose bios match the band's genres.",
+    (yargs) => {
+      return yargs
+        .positional("band", {
+          describe:
+            "The name of the band to list artists for. Not needed when using --config.",
+          type: "string",
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database (or .json file). Use {band} in the file name for the band name.",
+        });
+    },
+    async (argv) => {
+      try {
+        const config = await getBandConfig(argv.band, {
+          configFile: argv.config,
+          configDir: argv.configDir,
+        });
+        await listArtists(config, getBandFile(argv.file, config));
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "rescore [band]",
+    "Score the stored events again after changing the band's genres or filters, without scraping, and show the events that became relevant.",
+    (yargs) => {
+      return yargs
+        .positional("band", {
+          describe:
+            "The name of the band to score events for. Not needed when using --config.",
           type: "string",
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database (or .json file). Use {band} in the file name for the band name.",
+        })
+        .option("past", {
+          type: "boolean",
+          default: false,
+          description: "Include events that have already happened.",
+        })
+        .option("sort", {
+          alias: "s",
+          choices: ["score", "date"] as const,
+          default: "score" as const,
+          description: "Order the newly relevant events by score or by date.",
+        });
+    },
+    async (argv) => {
+      try {
+        const config = await getBandConfig(argv.band, {
+          configFile: argv.config,
+          configDir: argv.configDir,
+        });
+        await rescore(config, getBandFile(argv.file, config), {
+          includePast: argv.past,
+          sort: argv.sort,
+        });
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "triage [band]",
+    "Go through the relevant events from previous runs and mark each one as interested, contacted, booked or ignored.",
+    (yargs) => {
+      return yargs
+        .positional("band", {
+          describe:
+            "The name of the band to triage events for. Not needed when using --config.",
+          type: "string",
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          default: DEFAULT_GIGS_FILE,
+          description:
+            "Path to the gig database (or .json file). Use {band} in the file name for the band name.",
+        })
+        .option("all", {
+          alias: "a",
+          type: "boolean",
+          default: false,
+          description: "Also go through events that have already been triaged.",
+        })
+        .option("past", {
+          type: "boolean",
+          default: false,
+          description: "Include events that have already happened.",
+        })
+        .option("sort", {
+          alias: "s",
+          choices: ["score", "date"] as const,
+          default: "date" as const,
+          description: "Order the events by score or by date.",
+        });
+    },
+    async (argv) => {
+      try {
+        const config = await getBandConfig(argv.band, {
+          configFile: argv.config,
+          configDir: argv.configDir,
+        });
+        await triage(config, getBandFile(argv.file, config), {
+          all: argv.all,
+          includePast: argv.past,
+          sort: argv.sort,
+        });
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "import <sources..>",
+    "Import the gigs from existing gigs.json files into the gig database.",
+    (yargs) => {
+      return yargs
+        .positional("sources", {
+          describe:
+            "The JSON files to import. Each is saved as a separate run.",
+          type: "string",
+          array: true,
           demandOption: true,
-          required: true,
         })
         .option("file", {
           alias: "f",
           type: "string",
-          default: "./gigs.json",
-          description: "Path to the file containing the list of gigs.",
+          default: DEFAULT_GIGS_FILE,
+          description: "Path to the gig database to import into.",
         });
     },
-    (argv) => {
+    async (argv) => {
+      try {
+        const sites = await loadWebsiteConfigs(argv.configDir);
+        await importEvents(argv.sources, argv.file, Object.values(sites));
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "record <site>",
+    "Save a site's pages so its config can be tested without network access.",
+    (yargs) => {
+      return yargs
+        .positional("site", {
+          describe: "The name of the website config to record.",
+          type: "string",
+          demandOption: true,
+          required: true,
+        })
+        .option("dir", {
+          type: "string",
+          default: "./fixtures",
+          description: "Directory where the recorded pages are saved.",
+        })
+        .option("timeout", {
+          alias: "t",
+          type: "number",
+          default: 10000,
+          description: "Timeout in milliseconds for page loads.",
+        })
+        .option("limit", {
+          alias: "l",
+          type: "number",
+          default: 5,
+          description: "Limit the number of gig details to record.",
+        })
+        .option("debug", {
+          alias: "d",
+          type: "boolean",
+          description: "Enable debug mode (non-headless browsing).",
+        });
+    },
+    async (argv) => {
+      try {
+        const sites = await loadWebsiteConfigs(argv.configDir);
+        const site = sites[argv.site];
+        if (!site) throw new Error(`No website config found for ${argv.site}`);
+        await record(
+          argv.site,
+          site,
+          argv.dir,
+          argv.limit,
+          argv.timeout,
+          argv.debug,
+        );
+        process.exit(0);
+      } catch (e) {
+        console.error("Error:", e);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    "validate <target>",
+    "Check that each selector of a band's (or a single site's) website configs still matches the live website.",
+    (yargs) => {
+      return yargs
+        .positional("target", {
+          describe: "The name of a band or website config to validate.",
+          type: "string",
+          demandOption: true,
+          required: true,
+        })
+        .option("timeout", {
+          alias: "t",
+          type: "number",
+          default: 10000,
+          description: "Timeout in milliseconds for page loads.",
+        })
+        .option("debug", {
+          alias: "d",
+          type: "boolean",
+          description: "Enable debug mode (non-headless browsing).",
+        });
+    },
+    async (argv) => {
       try {
-        const config = getBandConfig(argv.band);
-        list(config, argv.file);
+        const site = (await loadWebsiteConfigs(argv.configDir))[argv.target];
+        const sites = site
+          ? [site]
+          : (
+              await getBandConfig(argv.target, {
+                configFile: argv.config,
+                configDir: argv.configDir,
+              })
+            ).websiteConfigs;
+        const passed = await validate(sites, argv.timeout, argv.debug);
+        process.exit(passed ? 0 : 1);
       } catch (e) {
         console.error("Error:", e);
         process.exit(1);
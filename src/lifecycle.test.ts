@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { diffEvents, findTrackedChanges, trackEventChanges } from "./lifecycle";
+import { createEvent } from "./test-helpers";
+import type { Event, EventsResult } from "./types";
+
+const URL = "https://venue.example.com/events";
+const NOW = new Date("2099-11-01T12:00:00Z");
+const SEEN = NOW.toISOString();
+
+function track(current: Event[], previous: Event[]) {
+  const sites: EventsResult[] = [{ url: URL, events: current }];
+  const changes = trackEventChanges(
+    sites,
+    [{ url: URL, events: previous }],
+    SEEN,
+    NOW,
+  );
+  return { site: sites[0], changes };
+}
+
+test("diffEvents ignores formatting differences", () => {
+  assert.deepEqual(
+    diffEvents(
+      createEvent("Funk  Night", {
+        detailLink: "https://a.com/e/1?utm_source=x",
+      }),
+      createEvent("funk night", { detailLink: "https://a.com/e/1" }),
+    ),
+    [],
+  );
+  assert.deepEqual(
+    diffEvents(
+      createEvent("Funk Night"),
+      createEvent("Funk Night", { date: "Sat Dec 5", isoDate: "2099-12-05" }),
+    ),
+    [
+      { field: "date", from: "Fri Dec 4", to: "Sat Dec 5" },
+      { field: "isoDate", from: "2099-12-04", to: "2099-12-05" },
+    ],
+  );
+});
+
+test("trackEventChanges classifies new, unchanged, modified and removed events", () => {
+  const previous = [
+    createEvent("Unchanged", { firstSeen: "2099-10-01T00:00:00.000Z" }),
+    createEvent("Renamed", { detailLink: "https://a.com/e/2" }),
+    createEvent("Moved"),
+    createEvent("Gone"),
+  ];
+  const current = [
+    createEvent("Unchanged"),
+    createEvent("Renamed: Live", { detailLink: "https://a.com/e/2" }),
+    createEvent("Moved", { date: "Sat Dec 5", isoDate: "2099-12-05" }),
+    createEvent("Brand New"),
+  ];
+
+  const { site, changes } = track(current, previous);
+
+  assert.deepEqual(
+    changes.map((c) => [c.event.name, c.status]),
+    [
+      ["Unchanged", "unchanged"],
+      ["Renamed: Live", "modified"],
+      ["Moved", "modified"],
+      ["Brand New", "new"],
+      ["Gone", "removed"],
+    ],
+  );
+  assert.equal(current[0].firstSeen, "2099-10-01T00:00:00.000Z");
+  assert.deepEqual(current[0].history, []);
+  assert.deepEqual(current[1].history, [
+    {
+      seen: SEEN,
+      status: "modified",
+      changes: [{ field: "name", from: "Renamed", to: "Renamed: Live" }],
+    },
+  ]);
+  assert.deepEqual(current[3].history, [{ seen: SEEN, status: "new" }]);
+  assert.deepEqual(
+    site.removed?.map((e) => [e.name, e.status]),
+    [["Gone", "removed"]],
+  );
+});
+
+test("trackEventChanges doesn't match recurring events by name", () => {
+  const { changes } = track(
+    [createEvent("Open Mic", { isoDate: "2099-12-11", date: "Dec 11" })],
+    [
+      createEvent("Open Mic", { isoDate: "2099-12-04", date: "Dec 4" }),
+      createEvent("Open Mic", { isoDate: "2099-12-18", date: "Dec 18" }),
+    ],
+  );
+
+  assert.deepEqual(
+    changes.map((c) => c.status),
+    ["new", "removed", "removed"],
+  );
+});
+
+test("trackEventChanges keeps the previous events of sites whose list failed", () => {
+  const previous = [
+    createEvent("Funk Night", { status: "new" }),
+    createEvent("Soul Revue", { status: "unchanged" }),
+  ];
+  const sites: EventsResult[] = [
+    {
+      url: URL,
+      events: [],
+      errors: [
+        {
+          site: URL,
+          phase: "list",
+          kind: "cache",
+          message: "Error fetching events",
+          time: SEEN,
+        },
+      ],
+    },
+  ];
+
+  const changes = trackEventChanges(
+    sites,
+    [{ url: URL, events: previous }],
+    SEEN,
+    NOW,
+  );
+
+  assert.deepEqual(changes, []);
+  assert.deepEqual(sites[0].removed, []);
+  assert.deepEqual(
+    sites[0].events?.map((e) => [e.name, e.status, e.history]),
+    [
+      ["Funk Night", "unchanged", undefined],
+      ["Soul Revue", "unchanged", undefined],
+    ],
+  );
+});
+
+test("findTrackedChanges reports the tracked shows that were cancelled, rescheduled or removed", () => {
+  const tracked = { relevance: ["funk"] };
+  const { changes } = track(
+    [
+      createEvent("CANCELLED: Funk Night", { detailLink: "https://a.com/1" }),
+      createEvent("Soul Revue", { isoDate: "2099-12-20", date: "Dec 20" }),
+      createEvent("Renamed Band", { detailLink: "https://a.com/3" }),
+    ],
+    [
+      createEvent("Funk Night", { ...tracked, detailLink: "https://a.com/1" }),
+      createEvent("Soul Revue", tracked),
+      createEvent("Band", { ...tracked, detailLink: "https://a.com/3" }),
+      createEvent("Blues Jam", tracked),
+      createEvent("Not Tracked", { relevance: [] }),
+      createEvent("Already Happened", { ...tracked, isoDate: "2099-10-01" }),
+    ],
+  );
+
+  const { cancelled, rescheduled, removed } = findTrackedChanges(
+    changes,
+    (event) => !!event.relevance?.length,
+    NOW,
+  );
+  assert.deepEqual(
+    cancelled.map((c) => c.previous?.name),
+    ["Funk Night"],
+  );
+  assert.deepEqual(
+    rescheduled.map((c) => c.changes.find((d) => d.field === "isoDate")),
+    [{ field: "isoDate", from: "2099-12-04", to: "2099-12-20" }],
+  );
+  assert.deepEqual(
+    removed.map((c) => c.event.name),
+    ["Blues Jam"],
+  );
+});
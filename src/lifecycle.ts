@@ -0,0 +1,265 @@
+import type {
+  Event,
+  EventsResult,
+  EventStatus,
+  FieldChange,
+  Nilable,
+} from "./types";
+import { isPastEvent } from "./dates";
+import { hasListError } from "./errors";
+import { canonicalizeUrl, getEventId, normalizeEventName } from "./identity";
+import { normalizeWhitespace } from "./util";
+
+/**
+ * The fields compared to find out how an event was modified.
+ */
+const TRACKED_FIELDS: FieldChange["field"][] = [
+  "name",
+  "date",
+  "isoDate",
+  "startTime",
+  "detailLink",
+];
+
+/**
+ * Formatting differences that aren't considered a change to the event (ex.
+ * tracking parameters added to the detail link).
+ */
+const FIELD_NORMALIZERS: Partial<
+  Record<FieldChange["field"], (value: Nilable<string>) => string>
+> = {
+  name: normalizeEventName,
+  date: (date) => normalizeWhitespace(date).toLowerCase(),
+  detailLink: canonicalizeUrl,
+};
+
+/**
+ * The fields that change when an event is rescheduled.
+ */
+const DATE_FIELDS: FieldChange["field"][] = ["date", "isoDate", "startTime"];
+
+const CANCELLED = /cancel+ed|postponed/i;
+
+/**
+ * How an event changed between the previous run and this one.
+ */
+export interface EventChange {
+  /**
+   * The url of the site the event is listed on.
+   */
+  site: string;
+  status: EventStatus;
+  /**
+   * The event from this run (or the previous event when it was removed).
+   */
+  event: Event;
+  /**
+   * The matching event from the previous run.
+   */
+  previous?: Event;
+  changes: FieldChange[];
+}
+
+/**
+ * Get the fields that differ between the two versions of an event.
+ */
+export function diffEvents(previous: Event, current: Event): FieldChange[] {
+  const value = (v: Nilable<string>) => v || null;
+  return TRACKED_FIELDS.filter((field) => {
+    const normalize = FIELD_NORMALIZERS[field] ?? value;
+    return normalize(previous[field]) !== normalize(current[field]);
+  }).map((field) => ({
+    field,
+    from: value(previous[field]),
+    to: value(current[field]),
+  }));
+}
+
+/**
+ * Pair up the remaining events that have the same key when the key is only
+ * used by a single event on each side. Ambiguous keys (ex. a weekly event with
+ * the same name) are left unmatched.
+ */
+function matchByKey(
+  current: Event[],
+  previous: Event[],
+  getKey: (event: Event) => string,
+  matches: Map<Event, Event>,
+) {
+  const group = (events: Event[]) => {
+    const groups = new Map<string, Event[]>();
+    for (const event of events) {
+      const key = getKey(event);
+      if (key) groups.set(key, [...(groups.get(key) ?? []), event]);
+    }
+    return groups;
+  };
+
+  const previousGroups = group(previous);
+  for (const [key, events] of group(current)) {
+    const candidates = previousGroups.get(key);
+    if (events.length === 1 && candidates?.length === 1) {
+      matches.set(events[0], candidates[0]);
+    }
+  }
+}
+
+/**
+ * Match the events from this run to the events from the previous run. Events
+ * are first matched by their identity. Events that were renamed or moved to a
+ * different date are then matched by their detail link or by their name.
+ * Returns a map from the current event to its previous version.
+ */
+export function matchEvents(
+  current: Event[],
+  previous: Event[],
+  now = new Date(),
+) {
+  const matches = new Map<Event, Event>();
+  const previousById = new Map(previous.map((e) => [getEventId(e), e]));
+  for (const event of current) {
+    const match = previousById.get(getEventId(event));
+    if (match) {
+      matches.set(event, match);
+      previousById.delete(getEventId(event));
+    }
+  }
+
+  const unmatched = () => {
+    const matched = new Set(matches.values());
+    return {
+      current: current.filter((e) => !matches.has(e)),
+      // Events that have already happened were removed because they expired
+      // so they can't have been rescheduled.
+      previous: previous.filter((e) => !matched.has(e) && !isPastEvent(e, now)),
+    };
+  };
+
+  let remaining = unmatched();
+  matchByKey(
+    remaining.current,
+    remaining.previous,
+    (e) => canonicalizeUrl(e.detailLink),
+    matches,
+  );
+  remaining = unmatched();
+  matchByKey(
+    remaining.current,
+    remaining.previous,
+    (e) => normalizeEventName(e.name),
+    matches,
+  );
+
+  return matches;
+}
+
+/**
+ * Classify each event as new, unchanged, modified or removed since the previous
+ * run. The status and history of each event are updated in place and the
+ * events that are no longer listed are added to each site's `removed` list.
+ * Sites whose event list failed to load keep the events from the previous run
+ * as they were. Returns the change for every event.
+ */
+export function trackEventChanges(
+  sites: EventsResult[],
+  previous: EventsResult[],
+  /**
+   * The time of this run (ISO timestamp).
+   */
+  seen: string,
+  now = new Date(),
+) {
+  const out: EventChange[] = [];
+
+  for (const site of sites) {
+    const previousEvents =
+      previous.find((prev) => prev.url === site.url)?.events ?? [];
+    if (hasListError(site)) {
+      site.events = previousEvents.map((e) => ({ ...e, status: "unchanged" }));
+      site.removed = [];
+      continue;
+    }
+
+    const events = site.events ?? [];
+    const matches = matchEvents(events, previousEvents, now);
+
+    for (const event of events) {
+      const prev = matches.get(event);
+      const changes = prev ? diffEvents(prev, event) : [];
+      const status: EventStatus = !prev
+        ? "new"
+        : changes.length
+          ? "modified"
+          : "unchanged";
+
+      event.status = status;
+      event.firstSeen = prev?.firstSeen ?? event.firstSeen;
+      event.history = [...(prev?.history ?? [])];
+      if (status !== "unchanged") {
+        event.history.push(
+          changes.length ? { seen, status, changes } : { seen, status },
+        );
+      }
+      out.push({ site: site.url, status, event, previous: prev, changes });
+    }
+
+    const matched = new Set(matches.values());
+    site.removed = previousEvents
+      .filter((e) => !matched.has(e))
+      .map((e) => ({
+        ...e,
+        status: "removed",
+        history: [...(e.history ?? []), { seen, status: "removed" }],
+      }));
+    for (const event of site.removed) {
+      out.push({ site: site.url, status: "removed", event, changes: [] });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Whether the event has been cancelled or postponed according to its name.
+ */
+export function isCancelledEvent(event: Event) {
+  return CANCELLED.test(event.name ?? "");
+}
+
+/**
+ * Whether the change moved the event to a different date or time.
+ */
+export function isRescheduled(change: EventChange) {
+  return change.changes.some((c) => DATE_FIELDS.includes(c.field));
+}
+
+/**
+ * Group the changes to the events we were tracking (as determined by
+ * `isTracked`) into the shows that were cancelled, rescheduled or are no longer
+ * listed. Events that have already happened are ignored.
+ */
+export function findTrackedChanges(
+  changes: EventChange[],
+  isTracked: (event: Event) => boolean,
+  now = new Date(),
+) {
+  const tracked = changes.filter(
+    (c) =>
+      c.status !== "new" &&
+      c.status !== "unchanged" &&
+      isTracked(c.previous ?? c.event) &&
+      !isPastEvent(c.event, now),
+  );
+
+  const cancelled = tracked.filter(
+    (c) => c.status === "modified" && isCancelledEvent(c.event),
+  );
+  return {
+    cancelled,
+    rescheduled: tracked.filter(
+      (c) =>
+        c.status === "modified" && !cancelled.includes(c) && isRescheduled(c),
+    ),
+    removed: tracked.filter((c) => c.status === "removed"),
+  };
+}
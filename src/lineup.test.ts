@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  createLineupArtist,
+  getEventLineup,
+  removeFilteredArtists,
+  scoreLineup,
+  splitLineup,
+} from "./lineup";
+import { isFilteredEvent } from "./scraper";
+import { createEvent } from "./test-helpers";
+
+const band = {
+  genres: ["funk*", "soul"],
+  filter: ["Tribute"],
+};
+
+test("splitLineup splits the acts in an event name", () => {
+  assert.deepEqual(
+    splitLineup("The Funk Band w/ The Horns + DJ Groove with Soul Sisters"),
+    ["The Funk Band", "The Horns", "DJ Groove", "Soul Sisters"],
+  );
+  assert.deepEqual(splitLineup("Funk Night w/Special Guests"), [
+    "Funk Night",
+    "Special Guests",
+  ]);
+  assert.deepEqual(splitLineup("Withers + Withers"), ["Withers", "Withers"]);
+  assert.deepEqual(splitLineup(null), []);
+});
+
+test("getEventLineup prefers the detail page lineup and then the performers", () => {
+  const horns = createLineupArtist("https://venue.example.com/horns", "");
+  assert.deepEqual(getEventLineup(createEvent("A w/ B", { lineup: [horns] })), [
+    { ...horns, name: "https://venue.example.com/horns" },
+  ]);
+  assert.deepEqual(
+    getEventLineup(createEvent("A w/ B", { performers: ["C"] })).map(
+      (a) => a.name,
+    ),
+    ["C"],
+  );
+  assert.deepEqual(
+    getEventLineup(createEvent("A w/ B")).map((a) => a.name),
+    ["A", "B"],
+  );
+});
+
+test("scoreLineup attributes the relevance to each act", () => {
+  const event = createEvent("The Funk Band w/ Tribute Act + Quiet Folk", {
+    description:
+      "The Funk Band bring the funk. Tribute Act play soul covers.\nQuiet Folk open the night.",
+  });
+  const lineup = scoreLineup(event, band);
+  assert.deepEqual(
+    lineup.map((a) => [a.name, a.score, a.matches, a.filtered]),
+    [
+      ["The Funk Band", 1, ["funk*"], undefined],
+      ["Tribute Act", 0, [], true],
+      ["Quiet Folk", 0, [], undefined],
+    ],
+  );
+
+  // The bios of filtered acts don't count towards the event.
+  const withBios = scoreLineup(
+    createEvent("Funk Night", {
+      lineup: [
+        createLineupArtist("/funk", "The Funk Band", "Funky grooves"),
+        createLineupArtist("/tribute", "Tribute Act", "Soul covers"),
+      ],
+    }),
+    band,
+  );
+  assert.deepEqual(
+    withBios.map((a) => a.matches),
+    [["funk*"], []],
+  );
+  assert.equal(
+    removeFilteredArtists("Funk Night\nFunky grooves\nSoul covers", withBios),
+    "Funk Night\nFunky grooves\n",
+  );
+});
+
+test("isFilteredEvent applies the band filters to each act", () => {
+  assert.equal(isFilteredEvent(createEvent("Tribute Night"), band), true);
+  assert.equal(
+    isFilteredEvent(createEvent("Tribute Act w/ The Funk Band"), band),
+    false,
+  );
+  assert.equal(
+    isFilteredEvent(createEvent("Tribute Act + Tribute Band"), band),
+    true,
+  );
+  assert.equal(
+    isFilteredEvent(createEvent("Open Mic w/ The Funk Band"), band),
+    true,
+  );
+});
@@ -0,0 +1,127 @@
+import type {
+  BandBaseConfiguration,
+  Event,
+  LineupArtist,
+  Nilable,
+} from "./types";
+import { scoreRelevance } from "./relevance";
+import { normalizeWhitespace, testStringOrRegex } from "./util";
+
+/**
+ * The separators between the acts in an event name (ex. "The Funk Band w/ The
+ * Horns + DJ Groove").
+ */
+const LINEUP_SEPARATOR = /\s+(?:with|\+)\s+|\s*\bw\/\s*/i;
+
+/**
+ * Split an event name into the names of the acts on the bill.
+ */
+export function splitLineup(name: Nilable<string>) {
+  return (name ?? "")
+    .split(LINEUP_SEPARATOR)
+    .map(normalizeWhitespace)
+    .filter(Boolean);
+}
+
+/**
+ * Get the acts on the bill of an event. The lineup from the detail page is used
+ * first, then the performers from the structured data and then the acts in the
+ * event name.
+ */
+export function getEventLineup(event: Event): LineupArtist[] {
+  if (event.lineup?.length) return event.lineup;
+
+  const names = event.performers?.length
+    ? event.performers
+    : splitLineup(event.name);
+  return names.map((name) => ({ name, relevance: [] }));
+}
+
+/**
+ * Create a lineup entry for an artist from the event's `lineup` links. Artists
+ * without a name (ex. image links) are named after their page.
+ */
+export function createLineupArtist(
+  url: string,
+  name: Nilable<string>,
+  description?: Nilable<string>,
+): LineupArtist {
+  return {
+    name: normalizeWhitespace(name) || url,
+    url,
+    description: description || null,
+    relevance: [],
+  };
+}
+
+/**
+ * Whether the artist matches one of the band's filters.
+ */
+export function isFilteredArtist(
+  artist: Pick<LineupArtist, "name">,
+  filter: Nilable<(string | RegExp)[]>,
+) {
+  return (filter ?? []).some((f) => testStringOrRegex(artist.name, f));
+}
+
+/**
+ * Get the text an artist's relevance is calculated from. That is their bio or
+ * else the sentences of the event description that mention them. The whole
+ * description is about the artist when they are the only act.
+ */
+function getArtistText(
+  artist: LineupArtist,
+  description: string,
+  lineupSize: number,
+) {
+  if (artist.description) return artist.description;
+  if (lineupSize === 1) return description;
+
+  const name = artist.name.toLowerCase();
+  const sentences = description
+    .split(/(?<=[.!?])\s+|\n+/)
+    .filter((sentence) => sentence.toLowerCase().includes(name));
+  return [artist.name, ...sentences].join("\n");
+}
+
+/**
+ * Calculate the relevance of each act on the bill. Acts matching the band's
+ * filters are marked as filtered instead.
+ */
+export function scoreLineup(
+  event: Event,
+  band: Pick<BandBaseConfiguration, "genres" | "scorer" | "filter">,
+): LineupArtist[] {
+  const lineup = getEventLineup(event);
+  const scorer = band.scorer ?? scoreRelevance;
+  return lineup.map(({ filtered, ...artist }) => {
+    if (isFilteredArtist(artist, band.filter)) {
+      return {
+        ...artist,
+        relevance: [],
+        score: 0,
+        matches: [],
+        filtered: true,
+      };
+    }
+    const text = getArtistText(artist, event.description ?? "", lineup.length);
+    const { score, matches, snippets } = scorer(text, band.genres);
+    return { ...artist, relevance: snippets, score, matches };
+  });
+}
+
+/**
+ * Remove the bios of the filtered acts from the event description so that they
+ * don't count towards the event's relevance.
+ */
+export function removeFilteredArtists(
+  description: string,
+  lineup: LineupArtist[],
+) {
+  return lineup
+    .filter((artist) => artist.filtered && artist.description)
+    .reduce(
+      (text, artist) => text.replace(artist.description!, ""),
+      description,
+    );
+}
@@ -0,0 +1,250 @@
+import assert from "node:assert/strict";
+import { readFile, mkdtemp, rm } from "fs/promises";
+import http from "node:http";
+import { AddressInfo, createServer, Socket } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+
+import { createNotification, notify } from "./notifiers";
+import { createEvent } from "./test-helpers";
+import type { BandConfig, Event, EventsResult, NotifierConfig } from "./types";
+
+const band: BandConfig = {
+  name: "Moongold",
+  genres: ["funk"],
+  sites: [],
+  filter: ["Tribute Night"],
+  websiteConfigs: [
+    {
+      url: "https://venue.example.com/events",
+      selectors: { event: "article", date: "time", name: "h2" },
+      venue: {
+        name: "The Venue",
+        booking: { email: "booking@venue.example.com" },
+      },
+    },
+  ],
+};
+
+const relevant: Partial<Event> = {
+  detailLink: "/events/funk-night",
+  relevance: ["funk night"],
+  score: 2,
+  matches: ["funk"],
+};
+
+const newEvents: EventsResult[] = [
+  {
+    url: "https://venue.example.com/events",
+    events: [
+      createEvent("Funk Night", relevant),
+      createEvent("Tribute Night", relevant),
+      createEvent("Open Mic", { relevance: [], score: 0, matches: [] }),
+      createEvent("Last Year", { ...relevant, isoDate: "2001-01-01" }),
+    ],
+  },
+];
+
+interface Received {
+  path?: string;
+  body: string;
+}
+
+/**
+ * A local HTTP server that records the requests sent to it.
+ */
+function startHttpServer() {
+  const requests: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url, body });
+      res.statusCode = req.url === "/fail" ? 500 : 200;
+      res.end();
+    });
+  });
+  return new Promise<{ url: string; requests: Received[]; close: () => void }>(
+    (resolve) =>
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://127.0.0.1:${port}`,
+          requests,
+          close: () => server.close(),
+        });
+      }),
+  );
+}
+
+/**
+ * A minimal local SMTP server that accepts every message it is sent.
+ */
+function startSmtpServer() {
+  const messages: Received[] = [];
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    let buffer = "";
+    let data: string | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 localhost ESMTP");
+    socket.on("data", (chunk) => {
+      buffer += chunk;
+      if (data != null) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        messages.push({ body: buffer.slice(0, end) });
+        buffer = buffer.slice(end + 5);
+        data = undefined;
+        reply("250 OK");
+      }
+
+      let index: number;
+      while (data == null && (index = buffer.indexOf("\r\n")) !== -1) {
+        const command = buffer.slice(0, index).toUpperCase();
+        buffer = buffer.slice(index + 2);
+        if (command.startsWith("EHLO")) reply("250 localhost");
+        else if (command === "DATA") {
+          data = "";
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else reply("250 OK");
+      }
+    });
+  });
+  return new Promise<{ port: number; messages: Received[]; close: () => void }>(
+    (resolve) =>
+      server.listen(0, "127.0.0.1", () => {
+        resolve({
+          port: (server.address() as AddressInfo).port,
+          messages,
+          close: () => {
+            sockets.forEach((s) => s.destroy());
+            server.close();
+          },
+        });
+      }),
+  );
+}
+
+let httpServer: Awaited<ReturnType<typeof startHttpServer>>;
+let smtpServer: Awaited<ReturnType<typeof startSmtpServer>>;
+let dir: string;
+
+before(async () => {
+  httpServer = await startHttpServer();
+  smtpServer = await startSmtpServer();
+  dir = await mkdtemp(path.join(os.tmpdir(), "gig-check-"));
+});
+
+after(async () => {
+  httpServer.close();
+  smtpServer.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("createNotification only includes upcoming relevant events that pass the filter", () => {
+  const { band: name, events } = createNotification(band, newEvents);
+
+  assert.equal(name, "Moongold");
+  assert.deepEqual(events, [
+    {
+      name: "Funk Night",
+      date: "Fri Dec 4",
+      isoDate: "2099-12-04",
+      startTime: undefined,
+      site: "https://venue.example.com/events",
+      link: "https://venue.example.com/events/funk-night",
+      score: 2,
+      matches: ["funk"],
+      venue: "The Venue",
+      pitch: "booking@venue.example.com",
+    },
+  ]);
+});
+
+test("notify sends the new events to every sink", async () => {
+  const file = path.join(dir, "gigs.jsonl");
+  const notifyConfig: NotifierConfig[] = [
+    {
+      type: "webhook",
+      url: `${httpServer.url}/hook`,
+      headers: { "X-Id": "1" },
+    },
+    { type: "slack", url: `${httpServer.url}/slack` },
+    { type: "discord", url: `${httpServer.url}/discord` },
+    {
+      type: "email",
+      host: "127.0.0.1",
+      port: smtpServer.port,
+      from: "gigs@example.com",
+      to: ["booking@example.com"],
+    },
+    { type: "file", path: file },
+    { type: "command", command: `cat >> "${path.join(dir, "command.json")}"` },
+  ];
+
+  const failed = await notify({ ...band, notify: notifyConfig }, newEvents);
+  assert.equal(failed, 0);
+
+  const [hook, slack, discord] = httpServer.requests;
+  assert.equal(hook.path, "/hook");
+  assert.deepEqual(
+    JSON.parse(hook.body),
+    JSON.parse(JSON.stringify(createNotification(band, newEvents))),
+  );
+  assert.match(JSON.parse(slack.body).text, /1 new gig for Moongold/);
+  assert.match(
+    JSON.parse(discord.body).content,
+    /Funk Night on Fri Dec 4 \(2099-12-04\) at The Venue/,
+  );
+
+  assert.equal(smtpServer.messages.length, 1);
+  assert.match(smtpServer.messages[0].body, /Subject: 1 new gig for Moongold/);
+  assert.match(smtpServer.messages[0].body, /funk-night/);
+  assert.match(smtpServer.messages[0].body, /Pitch: booking@venue.example.com/);
+
+  const [line] = (await readFile(file, "utf-8")).trim().split("\n");
+  assert.equal(JSON.parse(line).events[0].name, "Funk Night");
+
+  const command = JSON.parse(
+    await readFile(path.join(dir, "command.json"), "utf-8"),
+  );
+  assert.equal(command.events.length, 1);
+});
+
+test("notify keeps going when a sink fails", async () => {
+  const file = path.join(dir, "after-failure.jsonl");
+  const failed = await notify(
+    {
+      ...band,
+      notify: [
+        { type: "webhook", url: `${httpServer.url}/fail` },
+        { type: "command", command: "exit 3" },
+        { type: "file", path: file },
+      ],
+    },
+    newEvents,
+  );
+
+  assert.equal(failed, 2);
+  assert.match(await readFile(file, "utf-8"), /Funk Night/);
+});
+
+test("notify skips the sinks when there are no new relevant events", async () => {
+  const file = path.join(dir, "nothing.jsonl");
+  const failed = await notify(
+    { ...band, notify: [{ type: "file", path: file }] },
+    [{ url: "https://venue.example.com/events", events: [] }],
+  );
+
+  assert.equal(failed, 0);
+  await assert.rejects(readFile(file, "utf-8"), /ENOENT/);
+});
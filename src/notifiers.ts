@@ -0,0 +1,332 @@
+import chalk from "chalk";
+import { spawn } from "node:child_process";
+import { appendFile } from "fs/promises";
+import nodemailer from "nodemailer";
+
+import type {
+  BandConfig,
+  ChatNotifierConfig,
+  CommandNotifierConfig,
+  EmailNotifierConfig,
+  EventsResult,
+  FileNotifierConfig,
+  NotifierConfig,
+  WebhookNotifierConfig,
+} from "./types";
+import { compareEventDates, formatEventDate, isPastEvent } from "./dates";
+import { getEventUrl } from "./identity";
+import { isRelevant } from "./relevance";
+import { isFilteredEvent } from "./scraper";
+import { spinner } from "./spinner";
+import { getBandVenueDetails } from "./venues";
+
+/**
+ * A newly found gig as sent to the notification sinks.
+ */
+export interface NotificationEvent {
+  name: string;
+  /**
+   * The raw date text from the website.
+   */
+  date: string;
+  isoDate?: string;
+  startTime?: string;
+  /**
+   * The venue website the event was found on.
+   */
+  site: string;
+  /**
+   * The event detail page (or the venue website when there isn't one).
+   */
+  link: string;
+  score?: number;
+  matches?: string[];
+  /**
+   * The name of the venue (see `getVenueDetails`).
+   */
+  venue: string;
+  /**
+   * Who to pitch the band to at the venue.
+   */
+  pitch: string;
+}
+
+/**
+ * The payload sent to every notification sink.
+ */
+export interface GigNotification {
+  band: string;
+  events: NotificationEvent[];
+}
+
+/**
+ * Sends the notification to a single sink.
+ */
+export type Notifier<C extends NotifierConfig = NotifierConfig> = (
+  config: C,
+  notification: GigNotification,
+) => Promise<void>;
+
+/**
+ * The config of each type of notification sink.
+ */
+type NotifierConfigs = {
+  [C in NotifierConfig as C["type"]]: C;
+};
+
+type NotifierRegistry = {
+  [T in keyof NotifierConfigs]: Notifier<NotifierConfigs[T]>;
+};
+
+/**
+ * Discord rejects messages longer than this.
+ */
+const DISCORD_MAX_LENGTH = 2000;
+
+/**
+ * Get the new events worth telling the band about: relevant, upcoming events
+ * that don't match the band's filters.
+ */
+export function createNotification(
+  band: BandConfig,
+  newEvents: EventsResult[],
+  now = new Date(),
+): GigNotification {
+  const events = newEvents.flatMap((site) => {
+    const { venue, pitch } = getBandVenueDetails(band, site);
+    return (site.events ?? [])
+      .filter(
+        (event) =>
+          isRelevant(event, band) &&
+          !isFilteredEvent(event, band) &&
+          !isPastEvent(event, now),
+      )
+      .sort(compareEventDates)
+      .map((event): NotificationEvent => ({
+        name: event.name ?? "Unknown",
+        date: event.date ?? "",
+        isoDate: event.isoDate ?? undefined,
+        startTime: event.startTime ?? undefined,
+        site: site.url,
+        link: getEventUrl(site.url, event.detailLink),
+        score: event.score ?? undefined,
+        matches: event.matches ?? undefined,
+        venue,
+        pitch,
+      }));
+  });
+
+  return { band: band.name, events };
+}
+
+/**
+ * Get the subject line for the notification.
+ */
+export function formatNotificationSubject({ band, events }: GigNotification) {
+  return `${events.length} new gig${events.length === 1 ? "" : "s"} for ${band}`;
+}
+
+/**
+ * Format the notification as plain text with one event per line.
+ */
+export function formatNotificationText(notification: GigNotification) {
+  const lines = notification.events.map((event) => {
+    const date = formatEventDate(event);
+    const score =
+      event.score != null
+        ? ` (score ${event.score}: ${event.matches?.join(", ")})`
+        : "";
+    return `- ${event.name} on ${date} at ${event.venue}${score}\n  ${event.link}\n  Pitch: ${event.pitch}`;
+  });
+  return `${formatNotificationSubject(notification)}:\n\n${lines.join("\n")}\n`;
+}
+
+/**
+ * POST the JSON body to the url and throw if the server rejects it.
+ */
+async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `${url} responded with ${response.status} ${response.statusText}`,
+    );
+  }
+}
+
+const sendEmail: Notifier<EmailNotifierConfig> = async (
+  config,
+  notification,
+) => {
+  const pass = config.passwordEnv ? process.env[config.passwordEnv] : undefined;
+  if (config.passwordEnv && pass == null) {
+    throw new Error(
+      `The ${config.passwordEnv} environment variable is not set`,
+    );
+  }
+
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port ?? (config.secure ? 465 : 587),
+    secure: config.secure ?? false,
+    auth: config.user ? { user: config.user, pass } : undefined,
+  });
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: config.to,
+      subject: config.subject ?? formatNotificationSubject(notification),
+      text: formatNotificationText(notification),
+    });
+  } finally {
+    transport.close();
+  }
+};
+
+const sendWebhook: Notifier<WebhookNotifierConfig> = (config, notification) =>
+  postJson(config.url, notification, config.headers);
+
+const sendChatMessage: Notifier<ChatNotifierConfig> = (
+  config,
+  notification,
+) => {
+  const text = formatNotificationText(notification);
+  return postJson(
+    config.url,
+    config.type === "slack"
+      ? { text }
+      : {
+          content:
+            text.length > DISCORD_MAX_LENGTH
+              ? `${text.slice(0, DISCORD_MAX_LENGTH - 3)}...`
+              : text,
+        },
+  );
+};
+
+const appendToFile: Notifier<FileNotifierConfig> = (config, notification) =>
+  appendFile(
+    config.path,
+    JSON.stringify({ sentAt: new Date().toISOString(), ...notification }) +
+      "\n",
+  );
+
+const runCommand: Notifier<CommandNotifierConfig> = (config, notification) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(config.command, {
+      shell: true,
+      stdio: ["pipe", "inherit", "inherit"],
+      env: {
+        ...process.env,
+        GIG_CHECK_BAND: notification.band,
+        GIG_CHECK_COUNT: String(notification.events.length),
+      },
+    });
+    child.on("error", reject);
+    child.on("close", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(`"${config.command}" exited with code ${code}`)),
+    );
+    child.stdin.on("error", () => {
+      // The command may exit without reading its input.
+    });
+    child.stdin.end(JSON.stringify(notification));
+  });
+
+const notifiers: NotifierRegistry = {
+  email: sendEmail,
+  webhook: sendWebhook,
+  slack: sendChatMessage,
+  discord: sendChatMessage,
+  file: appendToFile,
+  command: runCommand,
+};
+
+/**
+ * Replace the notifier used for a sink type (ex. to send through a different
+ * email service).
+ */
+export function registerNotifier<T extends keyof NotifierConfigs>(
+  type: T,
+  notifier: NotifierRegistry[T],
+) {
+  notifiers[type] = notifier;
+}
+
+/**
+ * Get the notifier used for the sink type.
+ */
+function getNotifier<T extends keyof NotifierConfigs>(
+  type: T,
+): Notifier<NotifierConfigs[T]> {
+  return notifiers[type];
+}
+
+/**
+ * Send the notification to the sink with the notifier for its type.
+ */
+function sendNotification<T extends keyof NotifierConfigs>(
+  config: NotifierConfigs[T] & { type: T },
+  notification: GigNotification,
+) {
+  return getNotifier(config.type)(config, notification);
+}
+
+/**
+ * Describe the sink without including any secrets from its url.
+ */
+function describeSink(config: NotifierConfig) {
+  switch (config.type) {
+    case "email":
+      return `email to ${[config.to].flat().join(", ")}`;
+    case "file":
+      return `file ${config.path}`;
+    case "command":
+      return `command "${config.command}"`;
+    default:
+      try {
+        return `${config.type} ${new URL(config.url).host}`;
+      } catch (e) {
+        return config.type;
+      }
+  }
+}
+
+/**
+ * Send the band's new relevant events to each of the notification sinks in
+ * its config. A failing sink doesn't prevent the others from being notified.
+ * Returns the number of sinks that failed.
+ */
+export async function notify(band: BandConfig, newEvents: EventsResult[]) {
+  if (!band.notify?.length) return 0;
+
+  const notification = createNotification(band, newEvents);
+  if (!notification.events.length) {
+    spinner.info(`No new relevant events to notify ${band.name} about`);
+    return 0;
+  }
+
+  let failed = 0;
+  for (const config of band.notify) {
+    const sink = describeSink(config);
+    spinner.start(`Notifying ${chalk.yellow(sink)}`);
+    try {
+      await sendNotification(config, notification);
+      spinner.succeed(
+        `Sent ${chalk.green(notification.events.length)} new events to ${chalk.yellow(sink)}`,
+      );
+    } catch (e) {
+      failed++;
+      spinner.fail(`Unable to notify ${chalk.red(sink)}: ${e}`);
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+
+import type { ScrapePage } from "./browser";
+import { createHttpPage } from "./http-page";
+import { getReusablePage, openPageCache } from "./page-cache";
+import { getErrorKind } from "./retry";
+import type { CachedPage } from "./types";
+
+const NOW = new Date("2099-11-01T12:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "gig-check-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function createPage(url: string, page: Partial<CachedPage> = {}): CachedPage {
+  return {
+    url,
+    finalUrl: url,
+    status: 200,
+    fetched: NOW.toISOString(),
+    html: "<p>Funk Night</p>",
+    ...page,
+  };
+}
+
+test("cached pages are only reused within the TTL", async () => {
+  const cacheDir = path.join(dir, "ttl");
+  const url = "https://venue.example.com/events";
+  const page = createPage(url, {
+    fetched: new Date(NOW.getTime() - 2 * HOUR).toISOString(),
+  });
+  await openPageCache({ dir: cacheDir }, NOW).set(page);
+
+  const cache = openPageCache({ dir: cacheDir, ttl: 3 }, NOW);
+  assert.deepEqual(await getReusablePage(cache, url), page);
+  assert.equal(await cache.get("https://venue.example.com/other"), undefined);
+
+  const stale = openPageCache({ dir: cacheDir, ttl: 1 }, NOW);
+  assert.deepEqual(await stale.get(url), page);
+  assert.equal(await getReusablePage(stale, url), undefined);
+
+  // Any cached page is used when the network can't be.
+  const offline = openPageCache({ dir: cacheDir, ttl: 1, offline: true }, NOW);
+  assert.deepEqual(await getReusablePage(offline, url), page);
+});
+
+test("the http page revalidates stale pages and reads the cache offline", async () => {
+  let requests = 0;
+  const server = http.createServer((request, response) => {
+    requests++;
+    if (request.headers["if-none-match"] === '"v1"') {
+      response.writeHead(304).end();
+      return;
+    }
+    response.writeHead(200, { "content-type": "text/html", etag: '"v1"' });
+    response.end("<h2>Funk Night</h2>");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  const cacheDir = path.join(dir, "http");
+  const readName = (page: ScrapePage) =>
+    page.$eval("h2", (el) => el.textContent);
+
+  try {
+    // The page is fetched and then reused within the TTL.
+    const cache = openPageCache({ dir: cacheDir });
+    const page = createHttpPage(1000, cache);
+    await page.goto(url);
+    await page.goto(url);
+    assert.equal(requests, 1);
+    assert.equal(await readName(page), "Funk Night");
+    assert.equal((await cache.get(url))?.etag, '"v1"');
+
+    // Stale pages are revalidated instead of downloaded again.
+    const later = new Date(Date.now() + 2 * HOUR);
+    const stale = createHttpPage(
+      1000,
+      openPageCache({ dir: cacheDir, ttl: 1 }, later),
+    );
+    assert.equal((await stale.goto(url))?.status(), 200);
+    assert.equal(requests, 2);
+    assert.equal(await readName(stale), "Funk Night");
+
+    // Offline pages only come from the cache.
+    const offline = createHttpPage(
+      1000,
+      openPageCache({ dir: cacheDir, offline: true }),
+    );
+    await offline.goto(url);
+    assert.equal(requests, 2);
+    await assert.rejects(
+      offline.goto(`${url}missing`),
+      (error) => getErrorKind(error) === "cache",
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,108 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "node:path";
+
+import type { CachedPage } from "./types";
+
+/**
+ * The directory pages are cached in by default.
+ */
+export const DEFAULT_PAGE_CACHE_DIR = ".gig-cache";
+
+/**
+ * The number of hours a cached page is used before it is loaded again.
+ */
+export const DEFAULT_PAGE_TTL = 24;
+
+const HOUR = 60 * 60 * 1000;
+
+export interface PageCacheOptions {
+  /**
+   * The directory the pages are saved to.
+   */
+  dir?: string;
+  /**
+   * The number of hours a page is used without checking whether it changed.
+   */
+  ttl?: number;
+  /**
+   * Only use the cached pages. Pages that aren't cached fail to load instead of
+   * going to the network.
+   */
+  offline?: boolean;
+}
+
+/**
+ * The pages loaded on previous runs, saved on disk by url.
+ */
+export interface PageCache {
+  /**
+   * Whether only the cached pages can be used (see `--cache-only`).
+   */
+  offline: boolean;
+  /**
+   * Get the cached page no matter how old it is.
+   */
+  get(url: string): Promise<CachedPage | undefined>;
+  /**
+   * Whether the cached page can be used without loading it again. That is when
+   * it was loaded within the TTL or the cache is offline.
+   */
+  canReuse(page: CachedPage): boolean;
+  /**
+   * Save the page that was just loaded.
+   */
+  set(page: CachedPage): Promise<void>;
+}
+
+/**
+ * Get the file the page for the url is cached in.
+ */
+export function getPageCacheFile(dir: string, url: string) {
+  const hash = createHash("sha1").update(url).digest("hex");
+  return path.join(dir, `${hash}.json`);
+}
+
+/**
+ * Open the page cache in the directory. The directory is created when the
+ * first page is saved.
+ */
+export function openPageCache(
+  {
+    dir = DEFAULT_PAGE_CACHE_DIR,
+    ttl = DEFAULT_PAGE_TTL,
+    offline = false,
+  }: PageCacheOptions = {},
+  now = new Date(),
+): PageCache {
+  return {
+    offline,
+    async get(url) {
+      try {
+        const data = await readFile(getPageCacheFile(dir, url), "utf-8");
+        return JSON.parse(data) as CachedPage;
+      } catch (e) {
+        // Missing and corrupt files are loaded again.
+        return undefined;
+      }
+    },
+    canReuse(page) {
+      if (offline) return true;
+      // Pages saved since the cache was opened have a negative age.
+      const age = now.getTime() - new Date(page.fetched).getTime();
+      return age <= ttl * HOUR;
+    },
+    async set(page) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(getPageCacheFile(dir, page.url), JSON.stringify(page));
+    },
+  };
+}
+
+/**
+ * Get the cached page for the url if it can be used without loading it again.
+ */
+export async function getReusablePage(cache: PageCache, url: string) {
+  const page = await cache.get(url);
+  return page && cache.canReuse(page) ? page : undefined;
+}
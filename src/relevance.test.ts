@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { compileTerm, isRelevant, scoreRelevance } from "./relevance";
+import { createEvent } from "./test-helpers";
+
+/**
+ * Find the text the term matches in the description.
+ */
+function findMatches(term: Parameters<typeof compileTerm>[0], text: string) {
+  return [...text.matchAll(compileTerm(term).pattern)].map((m) => m[0]);
+}
+
+test("compileTerm matches whole words ignoring case", () => {
+  assert.deepEqual(findMatches("soul", "Soul, neo-soul and souls"), [
+    "Soul",
+    "soul",
+  ]);
+  assert.deepEqual(findMatches("funk", "Funky funk"), ["funk"]);
+  // Words in a term can be separated by any whitespace.
+  assert.deepEqual(findMatches("go go", "GO\n  GO music"), ["GO\n  GO"]);
+  assert.deepEqual(findMatches("DJ", "a djembe circle"), []);
+  // Non-ASCII letters count as part of a word.
+  assert.deepEqual(findMatches("cafe", "Cafés and cafe"), ["cafe"]);
+});
+
+test("compileTerm matches any word ending after a wildcard", () => {
+  assert.deepEqual(findMatches("funk*", "Funk, funky and funkadelic"), [
+    "Funk",
+    "funky",
+    "funkadelic",
+  ]);
+  // The wildcard still starts at a word boundary.
+  assert.deepEqual(findMatches("funk*", "P-funk and defunkt"), ["funk"]);
+});
+
+test("compileTerm reads the weight, case and partial options", () => {
+  const term = compileTerm({ term: "tribute", weight: -1 });
+  assert.equal(term.label, "tribute");
+  assert.equal(term.weight, -1);
+
+  assert.deepEqual(
+    findMatches({ term: "DJ", caseSensitive: true }, "DJ Dj dj"),
+    ["DJ"],
+  );
+  assert.deepEqual(findMatches({ term: "jazz", partial: true }, "acidjazz"), [
+    "jazz",
+  ]);
+  // Regular expressions are used as they are.
+  assert.deepEqual(findMatches(/go-?go/i, "Go-Go and gogo"), ["Go-Go", "gogo"]);
+  assert.equal(compileTerm(/go-?go/i).label, "go-?go");
+});
+
+test("scoreRelevance counts each matching term once", () => {
+  const { score, matches, snippets } = scoreRelevance(
+    "Funk and more funk, plus a funky tribute act.",
+    ["funk*", "soul", { term: "tribute", weight: -1 }],
+  );
+  assert.equal(score, 0);
+  assert.deepEqual(matches, ["funk*", "tribute"]);
+  // Only positive terms get snippets.
+  assert.equal(snippets.length, 3);
+});
+
+test("isRelevant compares the score to the band's minimum", () => {
+  const scored = createEvent("Funk Night", { score: 1, relevance: [] });
+  assert.equal(isRelevant(scored, {}), true);
+  assert.equal(isRelevant(scored, { minScore: 2 }), false);
+  assert.equal(isRelevant(createEvent("Open Mic", { score: 0 }), {}), false);
+
+  // Events saved before scores use their snippets.
+  assert.equal(
+    isRelevant(createEvent("Funk Night", { relevance: ["funk"] }), {}),
+    true,
+  );
+  assert.equal(
+    isRelevant(createEvent("Open Mic", { relevance: [] }), {}),
+    false,
+  );
+});
@@ -0,0 +1,164 @@
+import {
+  BandBaseConfiguration,
+  Event,
+  RelevanceResult,
+  RelevanceTerm,
+  WeightedTerm,
+} from "./types";
+import { createSnippet } from "./util";
+
+/**
+ * A relevance term compiled into a pattern that can be searched for.
+ */
+interface CompiledTerm {
+  label: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toWeightedTerm(term: RelevanceTerm): WeightedTerm {
+  return typeof term === "string" || term instanceof RegExp ? { term } : term;
+}
+
+/**
+ * Convert a relevance term into a regular expression. Strings match whole words
+ * case-insensitively by default. A trailing `*` in a string matches any word
+ * ending (ex. "funk*" matches "funky").
+ */
+export function compileTerm(term: RelevanceTerm): CompiledTerm {
+  const weighted = toWeightedTerm(term);
+  const weight = weighted.weight ?? 1;
+
+  if (weighted.term instanceof RegExp) {
+    const flags = weighted.term.flags.includes("g")
+      ? weighted.term.flags
+      : `${weighted.term.flags}g`;
+    return {
+      label: weighted.term.source,
+      pattern: new RegExp(weighted.term.source, flags),
+      weight,
+    };
+  }
+
+  const wildcard = weighted.term.endsWith("*");
+  const text = wildcard ? weighted.term.slice(0, -1) : weighted.term;
+  // Allow any whitespace between the words of a multi word term.
+  let source = text.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+  if (wildcard) source = `${source}[\\p{L}\\p{N}]*`;
+  if (!weighted.partial) {
+    source = `(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])`;
+  }
+
+  return {
+    label: weighted.term,
+    pattern: new RegExp(source, weighted.caseSensitive ? "gu" : "giu"),
+    weight,
+  };
+}
+
+/**
+ * The default relevance scorer. Each term that matches the description adds its
+ * weight to the score once, regardless of how many times it appears. Negative
+ * weights reduce the score.
+ */
+export function scoreRelevance(
+  description: string,
+  terms: RelevanceTerm[],
+  contextLength = 100,
+): RelevanceResult {
+  const result: RelevanceResult = { score: 0, matches: [], snippets: [] };
+
+  for (const term of terms.map(compileTerm)) {
+    let found = false;
+    for (const match of description.matchAll(term.pattern)) {
+      // Guard against patterns that can match an empty string.
+      if (!match[0]) continue;
+      found = true;
+      if (term.weight > 0) {
+        result.snippets.push(
+          createSnippet(
+            description,
+            match.index!,
+            match.index! + match[0].length,
+            contextLength,
+          ),
+        );
+      }
+    }
+
+    if (found) {
+      result.score += term.weight;
+      result.matches.push(term.label);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Determine how relevant an event description is to the band using the band's
+ * scorer (or the default scorer) and apply the results to the event.
+ */
+export function applyRelevance(
+  event: Event,
+  band: Pick<BandBaseConfiguration, "genres" | "scorer">,
+  description: string,
+) {
+  const scorer = band.scorer ?? scoreRelevance;
+  const { score, matches, snippets } = scorer(description, band.genres);
+  event.relevance = snippets;
+  event.score = score;
+  event.matches = matches;
+  return event;
+}
+
+/**
+ * Mark the event as not relevant without scoring it.
+ */
+export function markIrrelevant(event: Event) {
+  event.relevance = [];
+  event.score = 0;
+  event.matches = [];
+  return event;
+}
+
+/**
+ * Whether the event scored high enough to be relevant to the band. Events
+ * scored before scores were introduced are relevant if they have any snippets.
+ */
+export function isRelevant(
+  event: Event,
+  band: Pick<BandBaseConfiguration, "minScore">,
+) {
+  if (event.score == null) return !!event.relevance?.length;
+  return event.score >= (band.minScore ?? 1);
+}
+
+/**
+ * Sort comparator that orders events from most to least relevant.
+ */
+export function compareEventScores(a: Event, b: Event) {
+  return (b.score ?? 0) - (a.score ?? 0);
+}
+
+/**
+ * Wrap each of the band's positive terms found in the text with the given
+ * highlight function.
+ */
+export function highlightTerms(
+  text: string,
+  terms: RelevanceTerm[],
+  highlight: (match: string) => string,
+) {
+  return terms
+    .map(compileTerm)
+    .filter((term) => term.weight > 0)
+    .reduce(
+      (out, term) => out.replace(term.pattern, (match) => highlight(match)),
+      text,
+    );
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  createScrapeError,
+  getBackoffDelay,
+  getErrorKind,
+  getFailureCount,
+  isRetryableError,
+  recordEventFailure,
+  clearEventFailures,
+  withRetry,
+} from "./retry";
+import type { Event } from "./types";
+
+test("getErrorKind classifies page load errors", () => {
+  const timeout = new Error("Navigation timeout of 10000 ms exceeded");
+  timeout.name = "TimeoutError";
+  assert.equal(getErrorKind(timeout), "timeout");
+  assert.equal(
+    getErrorKind(new Error("net::ERR_CONNECTION_RESET at https://a.com")),
+    "network",
+  );
+  assert.equal(
+    getErrorKind(createScrapeError("selector", "missing")),
+    "selector",
+  );
+  assert.equal(getErrorKind(new Error("boom")), "other");
+  assert.equal(getErrorKind("boom"), "other");
+});
+
+test("isRetryableError only retries temporary failures", () => {
+  const http = (status: number) =>
+    createScrapeError("http", `HTTP ${status}`, { status });
+  assert.ok(isRetryableError(createScrapeError("timeout", "slow")));
+  assert.ok(isRetryableError(http(503)));
+  assert.ok(isRetryableError(http(429)));
+  assert.ok(!isRetryableError(http(404)));
+  assert.ok(!isRetryableError(createScrapeError("selector", "missing")));
+  assert.ok(!isRetryableError(new Error("boom")));
+});
+
+test("getBackoffDelay doubles up to the maximum", () => {
+  const options = { backoff: 100, maxBackoff: 500 };
+  assert.deepEqual(
+    [0, 1, 2, 3].map((attempt) => getBackoffDelay(attempt, options)),
+    [100, 200, 400, 500],
+  );
+});
+
+test("withRetry waits between attempts and gives up after the retries", async () => {
+  const waits: number[] = [];
+  const wait = async (ms: number) => waits.push(ms);
+
+  let calls = 0;
+  await assert.rejects(
+    withRetry(
+      async () => {
+        calls++;
+        throw createScrapeError("http", "HTTP 502", { status: 502 });
+      },
+      { retries: 3, backoff: 10 },
+      undefined,
+      wait,
+    ),
+    /HTTP 502/,
+  );
+  assert.equal(calls, 4);
+  assert.deepEqual(waits, [10, 20, 40]);
+});
+
+test("event failures are counted across runs and cleared on success", () => {
+  const event: Event = {
+    name: "Funk Night",
+    date: "Fri Dec 4",
+    description: null,
+    detailLink: "https://venue.example.com/e/1",
+    relevance: null,
+    page: 0,
+    // Saved before failures were counted.
+    errors: ["timeout: Navigation timeout"],
+  };
+  assert.equal(getFailureCount(event), 1);
+
+  recordEventFailure(event, "selector: Nothing matched .about");
+  assert.equal(event.failures, 2);
+  assert.equal(event.errors?.length, 2);
+
+  clearEventFailures(event);
+  assert.equal(getFailureCount(event), 0);
+  assert.equal(event.errors, undefined);
+});
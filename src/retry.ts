@@ -0,0 +1,149 @@
+import type { HTTPResponse } from "puppeteer";
+
+import type { Event, RetryOptions, ScrapeErrorKind } from "./types";
+import { sleep } from "./util";
+
+/**
+ * An error with the kind of failure that caused it.
+ */
+export interface ScrapeError extends Error {
+  kind: ScrapeErrorKind;
+  /**
+   * The HTTP status of the page for `http` errors.
+   */
+  status?: number;
+  /**
+   * The screenshot taken of the page when the error happened.
+   */
+  screenshot?: string;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 2,
+  backoff: 1000,
+  maxBackoff: 30000,
+  maxFailures: 3,
+};
+
+/**
+ * Create an error with the kind of failure.
+ */
+export function createScrapeError(
+  kind: ScrapeErrorKind,
+  message: string,
+  { cause, status }: { cause?: unknown; status?: number } = {},
+): ScrapeError {
+  const error = new Error(message, { cause }) as ScrapeError;
+  error.kind = kind;
+  if (status != null) error.status = status;
+  return error;
+}
+
+/**
+ * Get the kind of failure from an error thrown while loading a page.
+ */
+export function getErrorKind(error: unknown): ScrapeErrorKind {
+  if (typeof error === "object" && error != null && "kind" in error) {
+    return (error as ScrapeError).kind;
+  }
+  if (!(error instanceof Error)) return "other";
+  if (error.name === "TimeoutError" || /timed? ?out/i.test(error.message)) {
+    return "timeout";
+  }
+  if (/net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND/.test(error.message)) {
+    return "network";
+  }
+  return "other";
+}
+
+/**
+ * Whether the page load is worth trying again. Only server errors and rate
+ * limiting are retried for HTTP errors since other client errors (ex. 404)
+ * won't go away.
+ */
+export function isRetryableError(error: unknown) {
+  switch (getErrorKind(error)) {
+    case "timeout":
+    case "network":
+      return true;
+    case "http": {
+      const { status = 0 } = error as ScrapeError;
+      return status >= 500 || status === 429;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Throw an `http` error if the page responded with an error status.
+ */
+export function checkResponse(
+  response: Pick<HTTPResponse, "status"> | null,
+  url: string,
+) {
+  const status = response?.status() ?? 0;
+  if (status >= 400) {
+    throw createScrapeError("http", `HTTP ${status} loading ${url}`, {
+      status,
+    });
+  }
+}
+
+/**
+ * The delay before the retry, doubling with each attempt (starting at 0).
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions = {}) {
+  const { backoff, maxBackoff } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  return Math.min(maxBackoff, backoff * 2 ** attempt);
+}
+
+/**
+ * Run the task and retry it with exponential backoff while it fails with a
+ * retryable error.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = {},
+  /**
+   * Called before waiting to retry the task.
+   */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void,
+  wait: (ms: number) => Promise<unknown> = sleep,
+): Promise<T> {
+  const { retries } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+      const delay = getBackoffDelay(attempt, options);
+      onRetry?.(error, attempt + 1, delay);
+      await wait(delay);
+    }
+  }
+}
+
+/**
+ * The number of runs in which the event's details failed to load. Events saved
+ * before failures were counted have only their errors.
+ */
+export function getFailureCount(event: Pick<Event, "failures" | "errors">) {
+  return event.failures ?? (event.errors?.length ? 1 : 0);
+}
+
+/**
+ * Record a failed attempt to load the event's details.
+ */
+export function recordEventFailure(event: Event, message: string) {
+  event.failures = getFailureCount(event) + 1;
+  event.errors = [...(event.errors ?? []), message];
+}
+
+/**
+ * Forget the failures of an event whose details loaded.
+ */
+export function clearEventFailures(event: Event) {
+  delete event.failures;
+  delete event.errors;
+}
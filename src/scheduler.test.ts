@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createScrapeError } from "./retry";
+import { createScheduler, findRateLimit, getDomain } from "./scheduler";
+import { sleep } from "./util";
+
+test("getDomain drops the www prefix", () => {
+  assert.equal(getDomain("https://www.eventbrite.com/e/123"), "eventbrite.com");
+  assert.equal(getDomain("https://dc9.club/events/"), "dc9.club");
+});
+
+test("findRateLimit matches subdomains and prefers the most specific domain", () => {
+  const limits = {
+    "example.com": { concurrency: 3 },
+    "tickets.example.com": { concurrency: 1, delay: 5000 },
+  };
+  assert.deepEqual(findRateLimit("www2.example.com", limits), {
+    concurrency: 3,
+    delay: 1000,
+  });
+  assert.deepEqual(findRateLimit("tickets.example.com", limits), {
+    concurrency: 1,
+    delay: 5000,
+  });
+  assert.deepEqual(findRateLimit("notexample.com", limits, { delay: 0 }), {
+    concurrency: 2,
+    delay: 0,
+  });
+});
+
+test("scheduler limits the tasks running for each domain and overall", async () => {
+  const scheduler = createScheduler({
+    concurrency: 3,
+    defaultRateLimit: { concurrency: 2, delay: 0 },
+  });
+  const running: Record<string, number> = {};
+  const max: Record<string, number> = {};
+  let total = 0;
+  let maxTotal = 0;
+
+  const task = (domain: string) =>
+    scheduler.run(`https://${domain}/event`, async () => {
+      running[domain] = (running[domain] ?? 0) + 1;
+      max[domain] = Math.max(max[domain] ?? 0, running[domain]);
+      maxTotal = Math.max(maxTotal, ++total);
+      await sleep(10);
+      running[domain]--;
+      total--;
+      return domain;
+    });
+
+  const results = await Promise.all(
+    ["a.com", "a.com", "a.com", "b.com", "b.com", "c.com"].map(task),
+  );
+
+  assert.deepEqual(results, [
+    "a.com",
+    "a.com",
+    "a.com",
+    "b.com",
+    "b.com",
+    "c.com",
+  ]);
+  assert.equal(max["a.com"], 2);
+  assert.equal(maxTotal, 3);
+});
+
+test("scheduler waits between tasks for the same domain", async () => {
+  const scheduler = createScheduler({
+    rateLimits: { "slow.com": { concurrency: 2, delay: 50 } },
+  });
+  const starts: number[] = [];
+
+  await Promise.all(
+    [1, 2, 3].map(() =>
+      scheduler.run("https://slow.com", async () => {
+        starts.push(Date.now());
+      }),
+    ),
+  );
+
+  assert.ok(starts[1] - starts[0] >= 45);
+  assert.ok(starts[2] - starts[1] >= 45);
+});
+
+test("scheduler releases the slot when a task fails", async () => {
+  const scheduler = createScheduler({
+    concurrency: 1,
+    defaultRateLimit: { delay: 0 },
+  });
+
+  await assert.rejects(
+    scheduler.run("https://a.com", async () => {
+      throw new Error("boom");
+    }),
+    /boom/,
+  );
+  assert.equal(await scheduler.run("https://a.com", async () => 1), 1);
+});
+
+test("scheduler retries tasks that time out", async () => {
+  const retries: number[] = [];
+  const scheduler = createScheduler({
+    defaultRateLimit: { delay: 0 },
+    retry: { retries: 2, backoff: 1 },
+    onRetry: (_url, _error, attempt) => retries.push(attempt),
+  });
+
+  let calls = 0;
+  const result = await scheduler.run("https://a.com", async () => {
+    if (++calls < 3) throw createScrapeError("timeout", "Navigation timeout");
+    return calls;
+  });
+  assert.equal(result, 3);
+  assert.deepEqual(retries, [1, 2]);
+
+  calls = 0;
+  await assert.rejects(
+    scheduler.run("https://a.com", async () => {
+      calls++;
+      throw createScrapeError("selector", "Nothing matched .event");
+    }),
+    /Nothing matched/,
+  );
+  assert.equal(calls, 1);
+});
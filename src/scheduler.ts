@@ -0,0 +1,168 @@
+import type { RateLimit, RateLimits, RetryOptions } from "./types";
+import { withRetry } from "./retry";
+import { sleep } from "./util";
+
+/**
+ * The rate limit used for domains without a configured rate limit.
+ */
+export const DEFAULT_RATE_LIMIT: Required<RateLimit> = {
+  concurrency: 2,
+  delay: 1000,
+};
+
+/**
+ * The default number of pages that can be loading at once across all domains.
+ */
+export const DEFAULT_CONCURRENCY = 4;
+
+export interface SchedulerOptions {
+  /**
+   * The maximum number of tasks that can run at once across all domains.
+   */
+  concurrency?: number;
+  /**
+   * The rate limit for domains not listed in `rateLimits`.
+   */
+  defaultRateLimit?: RateLimit;
+  /**
+   * Rate limits for specific domains.
+   */
+  rateLimits?: RateLimits;
+  /**
+   * How tasks that fail with a timeout, network or server error are retried.
+   * Each retry waits for the domain's rate limit again.
+   */
+  retry?: RetryOptions;
+  /**
+   * Called before waiting to retry a task.
+   */
+  onRetry?: (
+    url: string,
+    error: unknown,
+    attempt: number,
+    delay: number,
+  ) => void;
+}
+
+/**
+ * Runs page loads in parallel while limiting how quickly each domain is hit.
+ */
+export interface Scheduler {
+  /**
+   * Run the task once the rate limit for the url's domain allows it. Failed
+   * tasks are retried with backoff (see `SchedulerOptions.retry`).
+   */
+  run<T>(url: string, task: () => Promise<T>): Promise<T>;
+}
+
+interface DomainState {
+  active: number;
+  /**
+   * The earliest time (in ms) that the next task for the domain can start.
+   */
+  nextStart: number;
+}
+
+/**
+ * Get the host name of the url without the "www." prefix.
+ */
+export function getDomain(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Find the rate limit for the domain. Rate limits apply to subdomains so the
+ * most specific match wins.
+ */
+export function findRateLimit(
+  domain: string,
+  rateLimits: RateLimits = {},
+  defaultRateLimit: RateLimit = {},
+): Required<RateLimit> {
+  const key = Object.keys(rateLimits)
+    .filter((d) => domain === d || domain.endsWith(`.${d}`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return {
+    ...DEFAULT_RATE_LIMIT,
+    ...defaultRateLimit,
+    ...(key ? rateLimits[key] : {}),
+  };
+}
+
+/**
+ * Create a scheduler that runs at most `concurrency` tasks at once while
+ * respecting the concurrency and delay of each domain.
+ */
+export function createScheduler({
+  concurrency = DEFAULT_CONCURRENCY,
+  defaultRateLimit,
+  rateLimits,
+  retry,
+  onRetry,
+}: SchedulerOptions = {}): Scheduler {
+  const domains = new Map<string, DomainState>();
+  let active = 0;
+  let waiting: (() => void)[] = [];
+
+  const getState = (domain: string) => {
+    let state = domains.get(domain);
+    if (!state) {
+      state = { active: 0, nextStart: 0 };
+      domains.set(domain, state);
+    }
+    return state;
+  };
+
+  const acquire = async (domain: string, limit: Required<RateLimit>) => {
+    const state = getState(domain);
+    while (
+      active >= Math.max(1, concurrency) ||
+      state.active >= Math.max(1, limit.concurrency)
+    ) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    state.active++;
+
+    // Reserve the next start time before waiting so that tasks queued behind
+    // this one are spaced out as well.
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + limit.delay;
+    if (start > now) await sleep(start - now);
+  };
+
+  const release = (domain: string) => {
+    active--;
+    getState(domain).active--;
+    // Let every waiting task check whether it can start now.
+    const ready = waiting;
+    waiting = [];
+    ready.forEach((resolve) => resolve());
+  };
+
+  return {
+    async run(url, task) {
+      const domain = getDomain(url);
+      const limit = findRateLimit(domain, rateLimits, defaultRateLimit);
+      return withRetry(
+        async () => {
+          await acquire(domain, limit);
+          try {
+            return await task();
+          } finally {
+            release(domain);
+          }
+        },
+        retry,
+        onRetry &&
+          ((error, attempt, delay) => onRetry(url, error, attempt, delay)),
+      );
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { test } from "node:test";
+
+import {
+  createReplayCache,
+  loadFixtureSite,
+  startReplayServer,
+} from "./fixtures";
+import type { PageCache } from "./page-cache";
+import { createScheduler } from "./scheduler";
+import { loadAllEventSummaries, rescoreEvents } from "./scraper";
+import { createEvent } from "./test-helpers";
+import type { BandConfig } from "./types";
+
+const FIXTURE_DIR = path.resolve("fixtures", "example-venue");
+
+test("rescoreEvents scores the stored descriptions against the current genres", () => {
+  const band: BandConfig = {
+    name: "Moongold",
+    genres: ["go-go", "neo soul"],
+    filter: ["Tribute"],
+    sites: [],
+    websiteConfigs: [],
+  };
+  const stale = { relevance: [], score: 0, matches: [] };
+  const sites = [
+    {
+      url: "https://venue.example.com/events",
+      events: [
+        createEvent("Go-Go Night", {
+          ...stale,
+          description: "A night of go-go and neo soul.",
+        }),
+        createEvent("Old Funk Night", {
+          relevance: ["funk"],
+          score: 1,
+          matches: ["funk"],
+        }),
+        createEvent("Tribute Night", {
+          relevance: ["funk"],
+          score: 1,
+          matches: ["funk"],
+        }),
+      ],
+    },
+  ];
+
+  assert.equal(rescoreEvents(sites, band), 2);
+  assert.deepEqual(
+    sites[0].events.map((e) => [e.name, e.score, e.matches]),
+    [
+      ["Go-Go Night", 2, ["go-go", "neo soul"]],
+      // Events saved without a description keep their score.
+      ["Old Funk Night", 1, ["funk"]],
+      ["Tribute Night", 0, []],
+    ],
+  );
+});
+
+test("loadAllEventSummaries stops paging once events pass the date horizon", async (t) => {
+  // The fixture's dates don't have a year so they're read as this year's.
+  t.mock.timers.enable({ apis: ["Date"], now: new Date(2026, 9, 1) });
+  const site = await loadFixtureSite(FIXTURE_DIR);
+  assert.ok(site);
+  const server = await startReplayServer(FIXTURE_DIR);
+  const replay = createReplayCache(server.url);
+  const loaded: string[] = [];
+  const cache: PageCache = {
+    ...replay,
+    get: (url) => {
+      loaded.push(url);
+      return replay.get(url);
+    },
+  };
+  const scheduler = createScheduler({
+    defaultRateLimit: { concurrency: 1, delay: 0 },
+  });
+
+  try {
+    const load = (maxDate?: string) =>
+      loadAllEventSummaries([site], [], undefined, 1000, {
+        maxDate,
+        scheduler,
+        cache,
+      });
+
+    const [all] = await load();
+    assert.deepEqual(
+      all.events?.map((event) => event.isoDate),
+      ["2026-12-04", "2026-12-05", "2027-01-10"],
+    );
+
+    // The first page already has an event after the horizon so the next page
+    // isn't loaded and the later events are left out.
+    loaded.length = 0;
+    const [horizon] = await load("2026-12-04");
+    assert.deepEqual(
+      [...new Set(loaded)],
+      ["https://venue.example.com/events"],
+    );
+    assert.deepEqual(
+      horizon.events?.map((event) => event.name),
+      ["Funk Night"],
+    );
+  } finally {
+    await server.close();
+  }
+});
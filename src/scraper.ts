@@ -4,120 +4,295 @@ import {
   Nilable,
   EventsResult,
   WebsiteConfig,
+  BandBaseConfiguration,
   BandConfig,
   Selectors,
   TwoPageSiteSelector,
-  Event,
   TwoPageWebsiteConfig,
+  Event,
+  LineupArtist,
+  ScrapeErrorRecord,
 } from "./types";
 import chalk from "chalk";
 import {
   countEvents,
-  findTextSnippets,
   isElementVisible,
   normalizeWhitespace,
   testStringOrRegex,
 } from "./util";
 import { spinner } from "./spinner";
-
-function determineShowRelevance(terms: string[], description: string) {
-  // TODO make this a commandline parameter
-  return findTextSnippets(description, terms);
-}
+import { ArtistCache, createArtistCache } from "./artists";
+import {
+  isBrowserPage,
+  openSitePage,
+  saveScreenshot,
+  ScrapePage,
+} from "./browser";
+import { createErrorRecord } from "./errors";
+import type { PageCache } from "./page-cache";
+import { applyRelevance, markIrrelevant } from "./relevance";
+import { isAfterDate, normalizeEventDate } from "./dates";
+import { canonicalizeUrl, getEventId, resolveUrl } from "./identity";
+import { createScheduler, Scheduler } from "./scheduler";
+import {
+  checkResponse,
+  clearEventFailures,
+  createScrapeError,
+  DEFAULT_RETRY_OPTIONS,
+  getErrorKind,
+  getFailureCount,
+  recordEventFailure,
+  ScrapeError,
+} from "./retry";
+import {
+  createLineupArtist,
+  getEventLineup,
+  isFilteredArtist,
+  removeFilteredArtists,
+  scoreLineup,
+} from "./lineup";
+import { extractEventFields, findDescriptionSelector } from "./selectors";
+import {
+  loadStructuredEvents,
+  matchStructuredEvent,
+  toEvent,
+} from "./structured-data";
 
 function isTwoPageSiteSelector(
-  selectors: Selectors,
+  selectors: Nilable<Selectors>,
 ): selectors is TwoPageSiteSelector {
-  return (selectors as any).detailLink != null;
+  return selectors != null && "detailLink" in selectors;
+}
+
+/**
+ * Whether the website links each event to a detail page.
+ */
+export function isTwoPageWebsiteConfig(
+  site: WebsiteConfig,
+): site is TwoPageWebsiteConfig {
+  return isTwoPageSiteSelector(site.selectors);
+}
+
+/**
+ * A website config with selectors. Only structured data sites can leave out
+ * the selectors.
+ */
+type SelectorWebsiteConfig = WebsiteConfig & { selectors: Selectors };
+
+/**
+ * Save the HTML of the browser page as rendered to the cache.
+ */
+async function cacheBrowserPage(
+  page: Page,
+  url: string,
+  cache: PageCache,
+  status = 200,
+) {
+  await cache.set({
+    url,
+    finalUrl: page.url(),
+    status,
+    fetched: new Date().toISOString(),
+    html: await page.content(),
+  });
+}
+
+/**
+ * The url each browser page last went to (and its status) until the page is
+ * saved to the cache (see `cacheLoadedPage`).
+ */
+const loadedPages = new WeakMap<Page, { url: string; status?: number }>();
+
+/**
+ * Load the url in the page. Error responses are thrown as `http` errors so
+ * that server errors can be retried.
+ */
+async function gotoPage(page: ScrapePage, url: string) {
+  const response = await page.goto(url, { waitUntil: "networkidle2" });
+  checkResponse(response, url);
+  if (isBrowserPage(page)) {
+    loadedPages.set(page, { url, status: response?.status() });
+  }
+}
+
+/**
+ * Save the browser page last loaded with `gotoPage` to the cache. This is done
+ * once its selectors have matched so that pages that hadn't finished rendering
+ * aren't reused. Pages from the HTTP engine are cached as they are fetched.
+ */
+async function cacheLoadedPage(page: ScrapePage, cache?: PageCache) {
+  const loaded = isBrowserPage(page) && loadedPages.get(page);
+  if (!cache || !loaded) return;
+  loadedPages.delete(page);
+  await cacheBrowserPage(page, loaded.url, cache, loaded.status);
 }
 
-function getEventId(event: Event) {
-  return `${event.name}-${event.date}`;
+/**
+ * Wait for the selector to match. The page has loaded by now so a timeout
+ * means the selector is missing rather than the page being slow.
+ */
+async function waitForSelector(
+  page: ScrapePage,
+  selector: string,
+  timeout: number,
+  message = `Nothing matched the selector "${selector}" on ${page.url()}`,
+) {
+  try {
+    await page.waitForSelector(selector, { timeout });
+  } catch (e) {
+    throw createScrapeError("selector", message, { cause: e });
+  }
 }
 
+/**
+ * Add a screenshot of the page to the error when screenshots are enabled (see
+ * `setScreenshotDir`).
+ */
+async function attachScreenshot(page: ScrapePage, error: unknown) {
+  if (error instanceof Error) {
+    const screenshot = await saveScreenshot(page);
+    if (screenshot) (error as ScrapeError).screenshot = screenshot;
+  }
+  return error;
+}
+
+/**
+ * The maximum number of pages to load for a site. Some websites have endless
+ * repeating events so we need to stop somewhere.
+ */
+const MAX_DEPTH = 6;
+/**
+ * The maximum number of pages to load when a date horizon is given. The horizon
+ * will usually stop pagination first but sparse calendars need more pages to
+ * reach it.
+ */
+const MAX_DEPTH_WITH_HORIZON = 20;
+
 /**
  * Load the next page of events using the provided selector to determine if the
- * page is loaded.
+ * page is loaded. Pages are loaded by following the `nextPageLink` or by
+ * clicking the `loadMoreLink` (browser engine only).
  */
 async function loadNextPage(
-  page: Page,
-  site: WebsiteConfig,
+  page: ScrapePage,
+  site: SelectorWebsiteConfig,
   timeout: number,
+  cache: PageCache | undefined,
   /**
-   * A list of event `name-date` strings that have already been discovered. This
-   * is used to prevent duplicates from getting added to the list of events in
-   * the case that the page uses infinite scroll.
+   * The ids (see `getEventId`) of the events that have already been discovered.
+   * This is used to prevent duplicates from getting added to the list of events
+   * in the case that the page uses infinite scroll.
    */
   discoveredEvents: string[] = [],
   depth = 0,
-  maxDepth = 6,
-  // TODO Max date parameter? If I add this, then we should make the maxDepth a
-  // larger number (12?)
-  // maxDate?: Date,
-) {
+  /**
+   * The ISO date (YYYY-MM-DD) after which we stop loading more events.
+   */
+  maxDate?: string,
+  maxDepth = maxDate ? MAX_DEPTH_WITH_HORIZON : MAX_DEPTH,
+): Promise<{ results: Event[]; errors: ScrapeErrorRecord[] }> {
   spinner.suffixText = `: page ${depth + 1}`;
   // Wait for the event container to load
-  await page.waitForSelector(site.selectors.event, { timeout });
-
-  // TODO We need to make sure this doesn't add the same events multiple times.
-  // In the case of a pageinated page this is working fine. In the cate of an
-  // infinite scroll page, the events from the first page are re-added on every
-  // subsequent "load more".
-  let errors: unknown[] = [];
-  let resultsOnPage = await page.$$eval(
+  await waitForSelector(
+    page,
     site.selectors.event,
-    (elements, selectors, page) => {
-      const out = elements.map((el) => {
-        const out = {
-          name: el
-            .querySelector(selectors.name)
-            ?.textContent?.replace(/\s+/g, " ")
-            .trim(),
-          date: el
-            .querySelector(selectors.date)
-            ?.textContent?.replace(/\s+/g, " ")
-            .trim(),
-          // Cannot use `isTwoPageSiteSelector` here because it is not
-          // available in the browser.
-          detailLink: (selectors as any).detailLink
-            ? el
-                .querySelector((selectors as any).detailLink)
-                ?.getAttribute("href")
-            : null,
-          // Cannot use `isTwoPageSiteSelector` here because it is not
-          // available in the browser.
-          description: (selectors as any).detailLink
-            ? null
-            : el?.textContent?.trim(),
-          relevance: null,
-          page,
-        };
-        return out;
-      });
-      return out;
+    timeout,
+    `No events matched the selector "${site.selectors.event}" on ${page.url()}. Run the validate command to check the site config.`,
+  );
+  await cacheLoadedPage(page, cache);
+
+  const errors: ScrapeErrorRecord[] = [];
+  const { selectors } = site;
+  const twoPage = isTwoPageSiteSelector(selectors);
+  const values = await extractEventFields(
+    page,
+    selectors.event,
+    {
+      name: selectors.name,
+      date: selectors.date,
+      // The link to the detail page or, for single page sites, the text of the
+      // whole event which is used as the description.
+      content: twoPage ? selectors.detailLink : {},
     },
-    site.selectors,
-    depth,
+    { content: twoPage ? { attribute: "href" } : { keepWhitespace: true } },
   );
+  let resultsOnPage: Event[] = values.map(({ name, date, content }) => ({
+    name,
+    date,
+    detailLink: twoPage ? resolveUrl(content, page.url()) : null,
+    description: twoPage ? null : content,
+    relevance: null,
+    page: depth,
+  }));
+  resultsOnPage = resultsOnPage.map((event) => normalizeEventDate(event, site));
+
+  // Filter out events we've seen before. In the case of an infinite scroll
+  // page, the events from the previous pages are still on the page after every
+  // "load more".
+  const eventIds = new Set(discoveredEvents);
+  const newEvents = resultsOnPage.filter((event) => {
+    const id = getEventId(event);
+    if (eventIds.has(id)) return false;
+    eventIds.add(id);
+    return true;
+  });
 
   // Whether we've gone too far into the future or done too many resursive
   // iterations. Some websites have endless repeating events and we don't want
   // to get stuck in an infinite loop.
   const depthExceeded = maxDepth == null ? false : depth >= maxDepth;
-  // const dateExceeded =
-  //   maxDate == null
-  //     ? false
-  //     : results.some((event) => {
-  //         return false;
-  //         const eventDate = new Date(event.date || "");
-  //         return isNaN(eventDate.getTime()) || eventDate > maxDate!;
-  //       });
-
-  // Check if there is a "load more" button
+  const dateExceeded =
+    maxDate == null
+      ? false
+      : resultsOnPage.some((event) => isAfterDate(event, maxDate));
+
+  // Follow the link to the next page of events
+  if (site.selectors.nextPageLink && !depthExceeded && !dateExceeded) {
+    const next = resolveUrl(
+      await page.$$eval(
+        site.selectors.nextPageLink,
+        (elements) => elements[0]?.getAttribute("href") ?? null,
+      ),
+      page.url(),
+    );
+    if (next && next !== page.url()) {
+      try {
+        await gotoPage(page, next);
+      } catch (e) {
+        errors.push(
+          createErrorRecord(
+            site.url,
+            "load-more",
+            `Error loading the next page of events from ${next}`,
+            { error: await attachScreenshot(page, e), url: next },
+          ),
+        );
+        return { results: newEvents, errors };
+      }
+
+      const moreResults = await loadNextPage(
+        page,
+        site,
+        timeout,
+        cache,
+        [...eventIds],
+        depth + 1,
+        maxDate,
+        maxDepth,
+      );
+      return {
+        results: [...newEvents, ...moreResults.results],
+        errors: [...errors, ...moreResults.errors],
+      };
+    }
+  }
+
+  // Check if there is a "load more" button. Only the browser can click it.
   if (
     site.selectors.loadMoreLink &&
-    !depthExceeded
-    // && !dateExceeded
+    isBrowserPage(page) &&
+    !depthExceeded &&
+    !dateExceeded
   ) {
     const nextDepth = depth + 1;
 
@@ -126,7 +301,14 @@ async function loadNextPage(
       loadMoreButton = await page.$(site.selectors.loadMoreLink);
     } catch (error) {
       spinner.fail(`Unable to find load more button at depth ${nextDepth}`);
-      errors.push(`Could not find load more button on ${site.url}`);
+      errors.push(
+        createErrorRecord(
+          site.url,
+          "load-more",
+          `Could not find load more button on ${site.url}`,
+          { error, url: page.url(), kind: "selector" },
+        ),
+      );
     }
 
     if (loadMoreButton) {
@@ -161,7 +343,12 @@ async function loadNextPage(
             });
           } catch (e) {
             errors.push(
-              `Error waiting for load more loader on ${site.url}: ${e}`,
+              createErrorRecord(
+                site.url,
+                "load-more",
+                `Error waiting for load more loader on ${site.url}`,
+                { error: e, url: page.url() },
+              ),
             );
           }
         } else {
@@ -176,65 +363,120 @@ async function loadNextPage(
             );
           } catch (e) {
             errors.push(
-              `Error waiting for more events to load on ${site.url}: ${e}`,
+              createErrorRecord(
+                site.url,
+                "load-more",
+                `Error waiting for more events to load on ${site.url}`,
+                { error: e, url: page.url() },
+              ),
             );
           }
         }
 
-        // Filter out events we've seen before.
-        const newEvents = resultsOnPage.filter(
-          (event) => !discoveredEvents.includes(getEventId(event)),
-        );
-        const eventIds = [
-          ...discoveredEvents,
-          ...newEvents.map((e) => getEventId(e)),
-        ];
-
         // Recursively load the next page of events
         const moreResults = await loadNextPage(
           page,
           site,
           timeout,
-          eventIds,
+          cache,
+          [...eventIds],
           nextDepth,
+          maxDate,
           maxDepth,
-          // maxDate,
         );
-        resultsOnPage = moreResults.results;
-        errors = moreResults.errors;
-        // resultsOnPage = [...newEvents, ...moreResults.results];
-        // errors = [...errors, ...moreResults.errors];
+        return {
+          results: [...newEvents, ...moreResults.results],
+          errors: [...errors, ...moreResults.errors],
+        };
       }
     }
   }
 
-  return { results: resultsOnPage, errors };
+  return { results: newEvents, errors };
+}
+
+/**
+ * Load the event list page and get its events. Structured data sites read the
+ * schema.org events on the page and only use the selectors when the page
+ * doesn't have any.
+ */
+async function loadEventList(
+  browser: Browser | undefined,
+  site: WebsiteConfig,
+  timeout: number,
+  maxDate?: string,
+  cache?: PageCache,
+) {
+  const page = await openSitePage(browser, site, timeout, cache, site.url);
+
+  // page.exposeFunction("__normalizeWhitespace", normalizeWhitespace);
+  // page.exposeFunction("__isElementVisible", isElementVisible);
+
+  try {
+    await gotoPage(page, site.url);
+
+    spinner.start(`${chalk.yellow(site.url)}`);
+    const structured = site.structuredData
+      ? await loadStructuredEvents(page)
+      : [];
+    if (structured.length) {
+      await cacheLoadedPage(page, cache);
+      return {
+        results: structured.map((e) => normalizeEventDate(toEvent(e), site)),
+        errors: [],
+      };
+    } else if (site.selectors) {
+      const results = await loadNextPage(
+        page,
+        site as SelectorWebsiteConfig,
+        timeout,
+        cache,
+        [],
+        0,
+        maxDate,
+      );
+      // Save the list with every event loaded by clicking "load more".
+      if (cache && isBrowserPage(page) && site.selectors.loadMoreLink) {
+        await cacheBrowserPage(page, site.url, cache);
+      }
+      return results;
+    }
+    throw createScrapeError(
+      "selector",
+      `No schema.org events found on ${page.url()} and the site has no selectors.`,
+    );
+  } catch (e) {
+    throw await attachScreenshot(page, e);
+  } finally {
+    await page.close();
+  }
 }
 
 /**
  * Get the name, date and detail link for each event on the given web page.
+ * The page is loaded through the scheduler so that it is retried when it times
+ * out or the server fails.
  */
 async function getEventSummariesFromWebsite(
-  browser: Browser,
+  browser: Browser | undefined,
   site: WebsiteConfig,
   timeout: number,
   _previous: Nilable<EventsResult>,
+  maxDate?: string,
+  scheduler: Scheduler = createScheduler(),
+  cache?: PageCache,
 ) {
   const output: EventsResult = {
     url: site.url,
     events: [],
     errors: [],
   };
-  const page = await browser.newPage();
-
-  // page.exposeFunction("__normalizeWhitespace", normalizeWhitespace);
-  // page.exposeFunction("__isElementVisible", isElementVisible);
 
   try {
-    await page.goto(site.url, { waitUntil: "networkidle2" });
-
-    spinner.start(`${chalk.yellow(site.url)}`);
-    const results = await loadNextPage(page, site, timeout);
+    const results = await scheduler.run(site.url, () => {
+      spinner.info(`Fetching events from: ${chalk.yellow(site.url)}`);
+      return loadEventList(browser, site, timeout, maxDate, cache);
+    });
     if (results.errors.length > 0) {
       spinner.fail(
         `${chalk.yellow(site.url)} Unable to detect load all events`,
@@ -244,45 +486,171 @@ async function getEventSummariesFromWebsite(
     }
     spinner.suffixText = "";
 
-    output.events = results.results;
+    // Drop the events beyond our horizon that were loaded along with the last
+    // page.
+    output.events = maxDate
+      ? results.results.filter((event) => !isAfterDate(event, maxDate))
+      : results.results;
     output.errors = results.errors;
   } catch (error) {
     console.error(
-      `Error fetching events from ${chalk.yellow(site.url)}:`,
+      `Error (${getErrorKind(error)}) fetching events from ${chalk.yellow(site.url)}:`,
       error,
     );
-    output.errors!.push(error);
-  } finally {
-    await page.close();
+    output.errors!.push(
+      createErrorRecord(
+        site.url,
+        "list",
+        `Error fetching events from ${site.url}`,
+        { error, url: site.url },
+      ),
+    );
   }
 
   return output;
 }
 
 /**
- * Load the event details page for the given event summary. This will also look
- * up the artist lineup bios if the website supports it.
+ * Load the text of the element matching the selector on the given page. This
+ * is used for the description of a single artist from the lineup of an event
+ * and the venue booking information.
+ */
+async function getPageText(
+  browser: Browser | undefined,
+  /**
+   * The site whose engine loads the page.
+   */
+  site: WebsiteConfig,
+  link: string,
+  selector: string,
+  timeout: number,
+  cache?: PageCache,
+) {
+  const page = await openSitePage(browser, site, timeout, cache, link);
+  try {
+    await gotoPage(page, link);
+    await waitForSelector(page, selector, timeout);
+    await cacheLoadedPage(page, cache);
+
+    return await page.$eval(selector, (el: Element) => el.textContent?.trim());
+  } catch (e) {
+    throw await attachScreenshot(page, e);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Load the event details page for the given event summary and save its
+ * description to the event. This will also look up the artist lineup bios if
+ * the website supports it. Each page load is run through the scheduler so
+ * that lineup pages from different domains can load in parallel. Structured
+ * data sites read the description, performers and ticket link from the
+ * schema.org event on the page before falling back to the selectors. The
+ * description selector is picked for the domain the detail link redirected to.
+ * Artist bios are read from the artist cache while they are fresh.
  */
 async function getEventDetailsFromPage(
-  browser: Browser,
-  band: BandConfig,
-  websiteConfig: TwoPageWebsiteConfig,
+  browser: Browser | undefined,
+  websiteConfig: WebsiteConfig,
   event: Event,
   eventSummaries: EventsResult,
   index: number,
   timeout: number,
+  scheduler: Scheduler,
+  artists: ArtistCache,
+  cache?: PageCache,
 ) {
   let errorCount = 0;
   try {
-    // Find the selector for the given link.
-    const selector = websiteConfig.selectors.description.find((s) =>
-      event.detailLink?.includes(s.domain),
-    );
+    const detailLink = event.detailLink as string;
+    const descriptionSelectors = isTwoPageSiteSelector(websiteConfig.selectors)
+      ? websiteConfig.selectors.description
+      : [];
+    const { finalLink, selector, description, lineupLinks, structured } =
+      await scheduler.run(detailLink, async () => {
+        spinner.start(
+          `Retrieving event ${chalk.green(event.name)} ${chalk.yellow(event.date)}`,
+        );
+        const page = await openSitePage(
+          browser,
+          websiteConfig,
+          timeout,
+          cache,
+          detailLink,
+        );
+        try {
+          await gotoPage(page, detailLink);
 
-    if (!selector) {
+          // Find the selector for the page the link redirected to (ex. a
+          // ticketing site) or else the link itself.
+          const finalLink = resolveUrl(page.url(), detailLink);
+          const selector = findDescriptionSelector(descriptionSelectors, [
+            finalLink,
+            detailLink,
+          ]);
+
+          const structured = websiteConfig.structuredData
+            ? matchStructuredEvent(await loadStructuredEvents(page), event)
+            : undefined;
+          if (structured?.description) await cacheLoadedPage(page, cache);
+          if (structured?.description || !selector) {
+            return {
+              finalLink,
+              selector,
+              description: structured?.description,
+              lineupLinks: [],
+              structured,
+            };
+          }
+
+          // Wait for the event container to load
+          await waitForSelector(page, selector.description, timeout);
+          await cacheLoadedPage(page, cache);
+
+          // If the website has a lineup selector, we need to get the
+          // description for each artist in the lineup.
+          const lineupLinks =
+            selector.lineup && selector.artistDescription
+              ? await page.$$eval(selector.lineup, (elements) =>
+                  elements.map((el) => ({
+                    link: el.getAttribute("href"),
+                    name: el.textContent?.trim(),
+                  })),
+                )
+              : [];
+          return {
+            finalLink,
+            selector,
+            description: await page.$eval(selector.description, (el: Element) =>
+              el.textContent?.trim(),
+            ),
+            lineupLinks: lineupLinks.map(({ link, name }) => ({
+              link: resolveUrl(link, page.url()),
+              name,
+            })),
+            structured,
+          };
+        } catch (e) {
+          throw await attachScreenshot(page, e);
+        } finally {
+          await page.close();
+        }
+      });
+
+    event.finalLink =
+      canonicalizeUrl(finalLink) !== canonicalizeUrl(detailLink)
+        ? finalLink
+        : undefined;
+    if (!selector && !websiteConfig.structuredData) {
       eventSummaries.errors = [
         ...(eventSummaries.errors ?? []),
-        `Counld not find a description selector for event (${index}) ${event.name} on ${event.date} at ${event.detailLink}`,
+        createErrorRecord(
+          eventSummaries.url,
+          "detail",
+          `Could not find a description selector for event (${index}) ${event.name} on ${event.date} at ${finalLink ?? detailLink}`,
+          { event, url: finalLink ?? detailLink, kind: "selector" },
+        ),
       ];
       spinner.fail(
         `Could not find a description selector for event ${chalk.red(event.name)}`,
@@ -290,91 +658,99 @@ async function getEventDetailsFromPage(
       return { success: false, events: eventSummaries, errorCount: 1 };
     }
 
-    spinner.start(
-      `Retrieving event ${chalk.green(event.name)} ${chalk.yellow(event.date)}`,
-    );
-    const page = await browser.newPage();
-    await page.goto(event.detailLink as string, {
-      waitUntil: "networkidle2",
-    });
-
-    // Wait for the event container to load
-    await page.waitForSelector(selector.description, { timeout });
-
-    const description = await page.$eval(
-      selector.description,
-      (el: Element) => el.textContent?.trim(),
-      websiteConfig.selectors,
-    );
+    if (structured?.performers.length && !event.performers?.length) {
+      event.performers = structured.performers;
+    }
+    event.offerUrl ??= structured?.offerUrl;
 
     const descriptions: string[] = [];
     if (description) {
       descriptions.push(description);
     }
 
-    // If the website has a lineup selector, we need to get the description
-    // for each artist in the lineup.
-    if (selector.lineup) {
-      const lineupLinks = await page.$$eval(selector.lineup, (elements) =>
-        elements.map((el) => el.getAttribute("href")),
-      );
+    // The acts on the bill along with their bios.
+    const lineup = await Promise.all(
+      lineupLinks.map(async ({ link, name }) => {
+        if (!link || !selector?.artistDescription) return undefined;
 
-      for (const link of lineupLinks) {
-        if (!link || !selector.artistDescription) continue;
+        const cached = artists.get(link, name, eventSummaries.url);
+        if (cached) {
+          return createLineupArtist(link, name || cached.name, cached.bio);
+        }
 
         try {
-          await page.goto(link, { waitUntil: "networkidle2" });
-          await page.waitForSelector(selector.artistDescription, {
-            timeout,
-          });
-
-          const lineupDescription = await page.$eval(
-            selector.artistDescription,
-            (el: Element) => el.textContent?.trim(),
+          const bio = await scheduler.run(link, () =>
+            getPageText(
+              browser,
+              websiteConfig,
+              link,
+              selector.artistDescription!,
+              timeout,
+              cache,
+            ),
           );
-
-          if (lineupDescription) {
-            descriptions.push(lineupDescription);
-          }
+          if (bio) artists.set(link, name, bio, eventSummaries.url);
+          return createLineupArtist(link, name, bio);
         } catch (lineupError) {
           errorCount++;
           eventSummaries.errors = [
             ...(eventSummaries.errors ?? []),
-            `Error fetching lineup description for event (${index}) ${event.name} on ${event.date} at ${link}: ${lineupError}`,
+            createErrorRecord(
+              eventSummaries.url,
+              "lineup",
+              `Error fetching lineup description for event (${index}) ${event.name} on ${event.date} at ${link}`,
+              { error: lineupError, event, url: link },
+            ),
           ];
           spinner.fail(
             `Error fetching lineup description for event ${chalk.red(event.name)} (see errors below)`,
           );
+          return createLineupArtist(link, name);
         }
-      }
+      }),
+    );
+    const acts = lineup.filter((a): a is LineupArtist => !!a);
+    if (acts.length) event.lineup = acts;
+    for (const { description } of acts) {
+      if (description) descriptions.push(description);
     }
 
     if (descriptions.length > 0) {
-      event.relevance = determineShowRelevance(
-        band.genres,
-        descriptions.join("\n"),
-      );
+      event.description = descriptions.join("\n");
+      clearEventFailures(event);
       spinner.info(
         `Retrieved event ${chalk.green(event.name)} ${chalk.yellow(event.date)}`,
       );
-      page.close();
       return { success: true, events: eventSummaries, errorCount };
     } else {
       errorCount++;
       const message = `No description found for event (${index}) ${event.name} on ${event.date} at ${eventSummaries.url}`;
-      eventSummaries.errors = [...(eventSummaries.errors ?? []), message];
-      event.errors = [...(event.errors ?? []), message];
+      eventSummaries.errors = [
+        ...(eventSummaries.errors ?? []),
+        createErrorRecord(eventSummaries.url, "detail", message, {
+          event,
+          url: event.finalLink ?? event.detailLink,
+          kind: "selector",
+        }),
+      ];
+      recordEventFailure(event, message);
       spinner.fail(`No description found for event ${chalk.red(event.name)}`);
-      page.close();
       return { success: false, events: eventSummaries, errorCount };
     }
   } catch (error) {
     errorCount++;
+    const kind = getErrorKind(error);
     eventSummaries.errors = [
       ...(eventSummaries.errors ?? []),
-      `Error fetching event (${index}) ${event.name} on ${event.date} at ${event.detailLink ?? eventSummaries.url}: ${error}`,
+      createErrorRecord(
+        eventSummaries.url,
+        "detail",
+        `Error fetching event (${index}) ${event.name} on ${event.date} at ${event.detailLink ?? eventSummaries.url}`,
+        { error, event, url: event.detailLink },
+      ),
     ];
-    event.errors = [...(event.errors ?? []), String(error)];
+    // Pages missing from the cache will load once the network can be used.
+    if (kind !== "cache") recordEventFailure(event, `${kind}: ${error}`);
     spinner.fail(
       `Error fetching event ${chalk.red(event.name)} (see errors below)`,
     );
@@ -390,14 +766,50 @@ export const DEFAULT_EVENT_FILTERS = [
 ];
 
 /**
- * Determine the relevance of each event by checking the detail link. This will
- * populate the `relevance` field of each event. Only the first `limit` events
- * without a relevance score will be checked so as not to get rate limited. This
- * function modifies the `site` object in place but also returns the number of
- * sucessfully fetched events and errors.
+ * Whether the event name matches one of the default filters or the band's
+ * filters match the event. The band's filters apply to each act on the bill
+ * (see `getEventLineup`) so a bill is only filtered when every act matches.
+ */
+export function isFilteredEvent(
+  event: Event,
+  band: Pick<BandBaseConfiguration, "filter">,
+) {
+  const name = event.name || "";
+  if (DEFAULT_EVENT_FILTERS.some((f) => testStringOrRegex(name, f))) {
+    return true;
+  }
+
+  const lineup = getEventLineup(event);
+  return lineup.length > 1
+    ? lineup.every((artist) => isFilteredArtist(artist, band.filter))
+    : isFilteredArtist({ name }, band.filter);
+}
+
+/**
+ * Whether we still need to load the event details to determine its relevance
+ * to the band. Events whose details failed to load are retried on later runs
+ * until they have failed `maxFailures` times.
+ */
+export function needsEventDetails(
+  event: Event,
+  band: Pick<BandBaseConfiguration, "filter">,
+  maxFailures = DEFAULT_RETRY_OPTIONS.maxFailures,
+) {
+  return (
+    event.relevance == null &&
+    getFailureCount(event) < maxFailures &&
+    !isFilteredEvent(event, band)
+  );
+}
+
+/**
+ * Load the description of each event that needs it by visiting its detail
+ * page. Only the first `limit` events will be loaded so as not to get rate
+ * limited. This function modifies the `site` object in place but also returns
+ * the number of fetched events and errors.
  */
 async function getEventDetails(
-  browser: Browser,
+  browser: Browser | undefined,
   /**
    * The website selectors.
    */
@@ -407,15 +819,14 @@ async function getEventDetails(
    */
   eventSummaries: EventsResult,
   /**
-   * The band config to use for determining relevance.
+   * Whether the given event needs its details loaded.
    */
-  band: BandConfig,
+  needsDetails: (event: Event) => boolean,
   limit = 5,
   timeout = 10000,
-  /**
-   * A list of strings to filter out events that are not relevant.
-   */
-  filter: (string | RegExp)[] = DEFAULT_EVENT_FILTERS,
+  scheduler: Scheduler = createScheduler(),
+  artists: ArtistCache = createArtistCache(),
+  cache?: PageCache,
 ) {
   if (!eventSummaries.events?.length) {
     spinner.info(
@@ -424,212 +835,126 @@ async function getEventDetails(
     return { site: eventSummaries, count: 0, errorCount: 0 };
   }
 
-  const offset = eventSummaries.events.findIndex(
-    (e) => e.relevance == null && e.errors == null,
-  );
-  if (offset == -1) {
+  // Single page sites already have the description from the event list.
+  if (
+    !websiteConfig.structuredData &&
+    !isTwoPageSiteSelector(websiteConfig.selectors)
+  ) {
+    return { site: eventSummaries, count: 0, errorCount: 0 };
+  }
+
+  const pending = eventSummaries.events
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => !event.description && needsDetails(event));
+  if (!pending.length) {
     spinner.info(
       `All events already have relevance scores for site ${chalk.yellow(eventSummaries.url)}`,
     );
     return { site: eventSummaries, count: 0, errorCount: 0 };
   }
 
-  const remaining = eventSummaries.events.length - offset;
-  const count = isTwoPageSiteSelector(websiteConfig.selectors)
-    ? Math.min(limit, remaining)
-    : remaining;
-  const end = offset + count;
+  const batch = pending.slice(0, limit);
   let errorCount = 0;
 
   spinner.info(
-    `Fetching details for events (${chalk.green(offset)} - ${chalk.green(end)}) / ${chalk.green(eventSummaries.events.length)} from ${chalk.yellow(eventSummaries.url)}`,
+    `Fetching details for ${chalk.green(batch.length)} / ${chalk.green(pending.length)} events from ${chalk.yellow(eventSummaries.url)}`,
   );
 
-  for (let index = offset; index < end; index++) {
-    const event = eventSummaries.events![index];
-    if (!event) throw new Error("Event not found for index " + index);
-    // If the relevance info is already set, skip this event. In the case that we
-    // start from the wrong offset, this prevents us from needlessly looking up
-    // data we already have.
-    if (event.relevance) continue;
-    // Skip any events that match our filter.
-    // if (testStringOrRegex(event.name || "", filter)) {
-    // if (filter.some((f) => f.test(event.name || ""))) {
-    if (filter.some((f) => testStringOrRegex(event.name || "", f))) {
-      // Mark this event as irrelevant
-      event.relevance = [];
-      continue;
-    }
+  await Promise.all(
+    batch.map(async ({ event, index }) => {
+      // We probably have a misconfiguration here.
+      if (!event.detailLink) {
+        errorCount++;
+        eventSummaries.errors = [
+          ...(eventSummaries.errors ?? []),
+          createErrorRecord(
+            eventSummaries.url,
+            "detail",
+            `No detail link found for event (${index}) ${event.name} on ${event.date} at ${eventSummaries.url}`,
+            { event, kind: "selector" },
+          ),
+        ];
+        spinner.fail(`No detail link found for event ${chalk.red(event.name)}`);
+        return;
+      }
 
-    // If it's a two page selector, we need to load the detail page to get the
-    // event description.
-    if (isTwoPageSiteSelector(websiteConfig.selectors)) {
-      const { events: updatedEvents, errorCount: ec } =
-        await getEventDetailsFromPage(
-          browser,
-          band,
-          websiteConfig as TwoPageWebsiteConfig,
-          event,
-          eventSummaries,
-          index,
-          timeout,
-        );
-      eventSummaries = updatedEvents;
+      const { errorCount: ec } = await getEventDetailsFromPage(
+        browser,
+        websiteConfig,
+        event,
+        eventSummaries,
+        index,
+        timeout,
+        scheduler,
+        artists,
+        cache,
+      );
       errorCount += ec;
-      // try {
-      //   // Find the selector for the given link.
-      //   const selector = websiteConfig.selectors.description.find((s) =>
-      //     event.detailLink?.includes(s.domain),
-      //   );
-      //
-      //   if (!selector) {
-      //     eventSummaries.errors = [
-      //       ...(eventSummaries.errors ?? []),
-      //       `Counld not find a description selector for event (${index}) ${event.name} on ${event.date} at ${event.detailLink}`,
-      //     ];
-      //     spinner.fail(
-      //       `Could not find a description selector for event ${chalk.red(event.name)}`,
-      //     );
-      //     continue;
-      //   }
-      //
-      //   spinner.start(`Retrieving event ${chalk.green(event.name)}`);
-      //   const page = await browser.newPage();
-      //   await page.goto(event.detailLink as string, {
-      //     waitUntil: "networkidle2",
-      //   });
-      //
-      //   // Wait for the event container to load
-      //   await page.waitForSelector(selector.description, { timeout });
-      //
-      //   const description = await page.$eval(
-      //     selector.description,
-      //     (el: Element) => el.textContent?.trim(),
-      //     websiteConfig.selectors,
-      //   );
-      //
-      //   const descriptions: string[] = [];
-      //   if (description) {
-      //     descriptions.push(description);
-      //   }
-      //
-      //   // If the website has a lineup selector, we need to get the description
-      //   // for each artist in the lineup.
-      //   if (selector.lineup) {
-      //     const lineupLinks = await page.$$eval(selector.lineup, (elements) =>
-      //       elements.map((el) => el.getAttribute("href")),
-      //     );
-      //
-      //     for (const link of lineupLinks) {
-      //       if (!link || !selector.artistDescription) continue;
-      //
-      //       try {
-      //         await page.goto(link, { waitUntil: "networkidle2" });
-      //         await page.waitForSelector(selector.artistDescription, {
-      //           timeout,
-      //         });
-      //
-      //         const lineupDescription = await page.$eval(
-      //           selector.artistDescription,
-      //           (el: Element) => el.textContent?.trim(),
-      //         );
-      //
-      //         if (lineupDescription) {
-      //           descriptions.push(lineupDescription);
-      //         }
-      //       } catch (lineupError) {
-      //         errorCount++;
-      //         eventSummaries.errors = [
-      //           ...(eventSummaries.errors ?? []),
-      //           `Error fetching lineup description for event (${index}) ${event.name} on ${event.date} at ${link}: ${lineupError}`,
-      //         ];
-      //         spinner.fail(
-      //           `Error fetching lineup description for event ${chalk.red(event.name)} (see errors below)`,
-      //         );
-      //       }
-      //     }
-      //   }
-      //
-      //   if (descriptions.length > 0) {
-      //     event.relevance = determineShowRelevance(
-      //       band.genres,
-      //       descriptions.join("\n"),
-      //     );
-      //     spinner.info(`Retrieved event ${chalk.green(event.name)}`);
-      //     page.close();
-      //     continue;
-      //   } else {
-      //     errorCount++;
-      //     const message = `No description found for event (${index}) ${event.name} on ${event.date} at ${eventSummaries.url}`;
-      //     eventSummaries.errors = [...(eventSummaries.errors ?? []), message];
-      //     event.errors = [...(event.errors ?? []), message];
-      //     spinner.fail(
-      //       `No description found for event ${chalk.red(event.name)}`,
-      //     );
-      //     page.close();
-      //     continue;
-      //   }
-      // } catch (error) {
-      //   errorCount++;
-      //   eventSummaries.errors = [
-      //     ...(eventSummaries.errors ?? []),
-      //     `Error fetching event (${index}) ${event.name} on ${event.date} at ${event.detailLink ?? eventSummaries.url}: ${error}`,
-      //   ];
-      //   event.errors = [...(event.errors ?? []), String(error)];
-      //   spinner.fail(
-      //     `Error fetching event ${chalk.red(event.name)} (see errors below)`,
-      //   );
-      //   continue;
-      // }
-    }
-    // If we already have a description, then we have everything we need to
-    // determine the event relevance.
-    else if (event.description) {
-      event.relevance = determineShowRelevance(band.genres, event.description);
-    }
-    // We probably have a misconfiguration here.
-    else {
-      errorCount++;
-      eventSummaries.errors = [
-        ...(eventSummaries.errors ?? []),
-        `No detail link found for event (${index}) ${event.name} on ${event.date} at ${eventSummaries.url}`,
-      ];
-      spinner.fail(`No detail link found for event ${chalk.red(event.name)}`);
-      continue;
-    }
-  }
+    }),
+  );
 
   return {
     site: eventSummaries,
-    count,
+    count: batch.length,
     errorCount,
   };
 }
 
+/**
+ * Options for loading the event summaries of the websites.
+ */
+export interface LoadEventSummariesOptions {
+  /**
+   * The ISO date (YYYY-MM-DD) after which events are ignored.
+   */
+  maxDate?: string;
+  scheduler?: Scheduler;
+  /**
+   * Called as each site finishes loading (ex. to save a checkpoint).
+   */
+  onSiteLoaded?: (site: EventsResult) => void;
+  /**
+   * The cache the pages are read from and saved to.
+   */
+  cache?: PageCache;
+}
+
 /**
  * Load the event summaries for the given list of websites. This will visit the
- * event list page for that website and extract the event summary data.
+ * event list page for that website and extract the event summary data. The
+ * websites are loaded in parallel as allowed by the scheduler.
  */
 export async function loadAllEventSummaries(
   websiteConfigs: WebsiteConfig[],
   previous: EventsResult[],
-  browser: Browser,
+  browser: Browser | undefined,
   timeout: number,
+  {
+    maxDate,
+    scheduler = createScheduler(),
+    onSiteLoaded,
+    cache,
+  }: LoadEventSummariesOptions = {},
 ) {
-  const sites: EventsResult[] = [];
-  for (const site of websiteConfigs) {
-    const prev = previous.find((s) => s.url === site.url);
-
-    spinner.info(`Fetching events from: ${chalk.yellow(site.url)}`);
-    const data = await getEventSummariesFromWebsite(
-      browser,
-      site,
-      timeout,
-      prev,
-    );
-    sites.push(data);
-    spinner.succeed(`Finished fetching events from: ${chalk.yellow(site.url)}`);
-  }
+  const sites = await Promise.all(
+    websiteConfigs.map(async (site) => {
+      const prev = previous.find((s) => s.url === site.url);
+      const data = await getEventSummariesFromWebsite(
+        browser,
+        site,
+        timeout,
+        prev,
+        maxDate,
+        scheduler,
+        cache,
+      );
+      spinner.succeed(
+        `Finished fetching events from: ${chalk.yellow(site.url)}`,
+      );
+      onSiteLoaded?.(data);
+      return data;
+    }),
+  );
   // console.log(util.inspect(sites, { colors: true, depth: null }));
 
   const loadErrorCount = sites.reduce(
@@ -645,35 +970,180 @@ export async function loadAllEventSummaries(
 }
 
 /**
- * Calculate the relevance for the events missing this data. This modifies the
- * sites data in place. How relevance is calculated depends on the website and may
- * require loading additional pages.
+ * Scrape the booking information of each venue with a booking selector and
+ * save it to the site's results. The booking text from the previous run is
+ * kept when the page can't be loaded. This modifies the sites data in place.
  */
-export async function getRelevanceForEvents(
+export async function loadBookingInfo(
   sites: EventsResult[],
-  band: BandConfig,
-  browser: Browser,
+  websiteConfigs: WebsiteConfig[],
+  previous: EventsResult[],
+  browser: Browser | undefined,
+  timeout: number,
+  scheduler: Scheduler = createScheduler(),
+  cache?: PageCache,
+) {
+  await Promise.all(
+    sites.map(async (site) => {
+      const config = websiteConfigs.find((c) => c.url === site.url);
+      const booking = config?.venue?.booking;
+      site.booking = previous.find((p) => p.url === site.url)?.booking;
+      if (!config || !booking?.selector) return;
+
+      const url = booking.page ?? site.url;
+      try {
+        const text = await scheduler.run(url, () =>
+          getPageText(browser, config, url, booking.selector!, timeout, cache),
+        );
+        if (text) site.booking = normalizeWhitespace(text);
+      } catch (error) {
+        site.errors = [
+          ...(site.errors ?? []),
+          createErrorRecord(
+            site.url,
+            "booking",
+            `Error fetching booking information from ${url}`,
+            { error, url },
+          ),
+        ];
+        spinner.fail(
+          `Error fetching booking information from ${chalk.red(url)} (see errors below)`,
+        );
+      }
+    }),
+  );
+}
+
+/**
+ * Load the event descriptions needed to calculate relevance. How descriptions
+ * are loaded depends on the website and may require loading additional pages.
+ * This modifies the sites data in place. `needsDetails` determines which events
+ * to load so that one scrape can be shared by several bands.
+ */
+export async function loadEventDescriptions(
+  sites: EventsResult[],
+  websiteConfigs: WebsiteConfig[],
+  browser: Browser | undefined,
   limit: number,
   timeout: number,
+  needsDetails: (event: Event) => boolean,
+  scheduler: Scheduler = createScheduler(),
+  /**
+   * The artist bios loaded on previous runs. Newly loaded bios are added to it.
+   */
+  artists: ArtistCache = createArtistCache(),
+  /**
+   * The cache the pages are read from and saved to.
+   */
+  cache?: PageCache,
 ) {
   let detailCount = 0;
+  await Promise.all(
+    sites.map(async (site) => {
+      const c = websiteConfigs.find((c) => c.url === site.url);
+
+      if (!c) {
+        site.errors = [
+          ...(site.errors ?? []),
+          createErrorRecord(
+            site.url,
+            "detail",
+            `Unable to find config for site ${site.url}`,
+          ),
+        ];
+        spinner.fail(`Unable to find config for site ${chalk.red(site.url)}`);
+        return;
+      }
+
+      const r = await getEventDetails(
+        browser,
+        c,
+        site,
+        needsDetails,
+        limit,
+        timeout,
+        scheduler,
+        artists,
+        cache,
+      );
+      detailCount += r.count;
+    }),
+  );
+  spinner.succeed(`${chalk.green(detailCount)} Event details fetched`);
+}
+
+/**
+ * Calculate the relevance of each event that doesn't have it yet from the
+ * event description. Events matching the band's filters are marked as
+ * irrelevant. The relevance of each act is calculated when the bill has
+ * several acts (or a lineup from the detail page) and the bios of filtered
+ * acts don't count towards the event. This modifies the sites data in place.
+ */
+export function scoreEvents(sites: EventsResult[], band: BandConfig) {
   for (const site of sites) {
-    const c = band.websiteConfigs.find((c) => c.url === site.url);
+    for (const event of site.events ?? []) {
+      if (event.relevance != null) continue;
 
-    if (!c) {
-      site.errors = [
-        ...(site.errors ?? []),
-        `Unable to find config for site ${site.url}`,
-      ];
-      spinner.fail(`Unable to find config for site ${chalk.red(site.url)}`);
-      continue;
+      if (isFilteredEvent(event, band)) {
+        markIrrelevant(event);
+      } else if (event.description) {
+        const lineup = scoreLineup(event, band);
+        if (lineup.length > 1 || event.lineup?.length) event.lineup = lineup;
+        applyRelevance(
+          event,
+          band,
+          removeFilteredArtists(event.description, lineup),
+        );
+      }
     }
+  }
+}
 
-    const r = await getEventDetails(browser, c, site, band, limit, timeout, [
-      ...(band.filter ?? []),
-      ...DEFAULT_EVENT_FILTERS,
-    ]);
-    detailCount += r.count;
+/**
+ * Score the stored events again from their saved descriptions against the
+ * band's current genres and filters. Events saved without a description keep
+ * their relevance unless they now match the band's filters. This modifies the
+ * sites data in place and returns the number of events that were scored again.
+ */
+export function rescoreEvents(sites: EventsResult[], band: BandConfig) {
+  let count = 0;
+  for (const site of sites) {
+    for (const event of site.events ?? []) {
+      if (!event.description && !isFilteredEvent(event, band)) continue;
+      event.relevance = null;
+      delete event.score;
+      delete event.matches;
+      count++;
+    }
   }
-  spinner.succeed(`${chalk.green(detailCount)} Event details fetched`);
+  scoreEvents(sites, band);
+  return count;
+}
+
+/**
+ * Calculate the relevance for the events missing this data. This modifies the
+ * sites data in place. How relevance is calculated depends on the website and may
+ * require loading additional pages (which are read from the cache when given).
+ */
+export async function getRelevanceForEvents(
+  sites: EventsResult[],
+  band: BandConfig,
+  browser: Browser | undefined,
+  limit: number,
+  timeout: number,
+  scheduler: Scheduler = createScheduler(),
+  cache?: PageCache,
+) {
+  await loadEventDescriptions(
+    sites,
+    band.websiteConfigs,
+    browser,
+    limit,
+    timeout,
+    (event) => needsEventDetails(event, band),
+    scheduler,
+    createArtistCache(),
+    cache,
+  );
+  scoreEvents(sites, band);
 }
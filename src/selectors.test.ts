@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  describeFieldSelector,
+  findDescriptionSelector,
+  getJsonLdValue,
+  resolveFieldValue,
+} from "./selectors";
+
+const EVENT_JSON_LD = JSON.stringify({
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "Organization", name: "The Venue" },
+    {
+      "@type": "MusicEvent",
+      name: "Funk Night",
+      startDate: "2099-12-04T20:00",
+      location: { "@type": "Place", name: "The Venue" },
+      offers: [{ url: "https://tickets.example.com/1" }],
+    },
+  ],
+});
+
+test("resolveFieldValue cleans up the text and applies the regex", () => {
+  assert.equal(resolveFieldValue("h2", "  Funk\n  Night "), "Funk Night");
+  assert.equal(
+    resolveFieldValue(
+      { css: "h2", regex: /^(.*?) \(all ages\)/ },
+      "Funk Night (all ages)",
+    ),
+    "Funk Night",
+  );
+  assert.equal(
+    resolveFieldValue({ css: "h2", regex: /tickets/ }, "Funk Night"),
+    null,
+  );
+  assert.equal(
+    resolveFieldValue({}, " Line one\n Line two ", { keepWhitespace: true }),
+    "Line one\n Line two",
+  );
+  assert.equal(resolveFieldValue("h2", null), null);
+});
+
+test("resolveFieldValue reads the JSON-LD event", () => {
+  assert.equal(
+    resolveFieldValue({ jsonLd: "startDate" }, ["not json", EVENT_JSON_LD]),
+    "2099-12-04T20:00",
+  );
+  assert.equal(
+    resolveFieldValue({ jsonLd: "offers.url" }, [EVENT_JSON_LD]),
+    "https://tickets.example.com/1",
+  );
+  assert.equal(
+    resolveFieldValue({ jsonLd: "location" }, [EVENT_JSON_LD]),
+    null,
+  );
+});
+
+test("getJsonLdValue follows indexes and uses the first item of lists", () => {
+  const data = { performer: [{ name: "A" }, { name: "B" }] };
+  assert.equal(getJsonLdValue(data, "performer.name"), "A");
+  assert.equal(getJsonLdValue(data, "performer.1.name"), "B");
+  assert.equal(getJsonLdValue(data, "performer.2.name"), undefined);
+});
+
+test("describeFieldSelector summarizes the selector", () => {
+  assert.equal(describeFieldSelector(".date"), ".date");
+  assert.equal(
+    describeFieldSelector({ css: "time", attribute: "datetime" }),
+    "time@datetime",
+  );
+  assert.equal(
+    describeFieldSelector({ xpath: ".//h2", regex: /^(.*) - / }),
+    "xpath:.//h2 /^(.*) - /",
+  );
+  assert.equal(
+    describeFieldSelector({ jsonLd: "startDate" }),
+    "json-ld:startDate",
+  );
+});
+
+test("findDescriptionSelector prefers the domain the link redirected to", () => {
+  const venue = { domain: "venue.example.com", description: ".about" };
+  const tickets = { domain: "ticketweb.com", description: ".event-info" };
+  const selectors = [venue, tickets];
+
+  assert.equal(
+    findDescriptionSelector(selectors, [
+      "https://www.ticketweb.com/event/1",
+      "https://venue.example.com/e/1",
+    ]),
+    tickets,
+  );
+  assert.equal(
+    findDescriptionSelector(selectors, [
+      "https://unknown.example.org/e/1",
+      "https://venue.example.com/e/1",
+    ]),
+    venue,
+  );
+  assert.equal(
+    findDescriptionSelector(selectors, [null, "https://example.org/"]),
+    undefined,
+  );
+});
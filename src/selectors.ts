@@ -0,0 +1,221 @@
+import type {
+  FieldSelector,
+  FieldSelectorConfig,
+  Nilable,
+  WebsiteContentSelector,
+} from "./types";
+import type { ScrapePage } from "./browser";
+import { getDomain } from "./scheduler";
+import { isSchemaEvent, parseJson } from "./structured-data";
+import { normalizeWhitespace } from "./util";
+
+/**
+ * The part of a field selector that runs in the browser: which element to
+ * read and whether to read its text, an attribute or its JSON-LD scripts.
+ */
+interface BrowserFieldSelector {
+  css?: string;
+  xpath?: string;
+  attribute?: string;
+  jsonLd?: boolean;
+}
+
+/**
+ * The value read from the page for a field before the JSON-LD path and regex
+ * are applied. JSON-LD fields get the text of each script.
+ */
+export type RawFieldValue = Nilable<string> | string[];
+
+/**
+ * Options for how a field is read.
+ */
+export interface FieldOptions {
+  /**
+   * The attribute read when the selector doesn't pick a value (ex. "href" for
+   * links).
+   */
+  attribute?: string;
+  /**
+   * Only trim the text instead of collapsing the whitespace.
+   */
+  keepWhitespace?: boolean;
+}
+
+/**
+ * Convert a CSS selector string to a `FieldSelector`.
+ */
+export function toFieldSelector(config: FieldSelectorConfig): FieldSelector {
+  return typeof config === "string" ? { css: config } : config;
+}
+
+/**
+ * Describe the selector for error messages and reports (ex.
+ * `time@datetime`).
+ */
+export function describeFieldSelector(config: FieldSelectorConfig) {
+  if (typeof config === "string") return config;
+
+  const { css, xpath, attribute, jsonLd, regex } = config;
+  const parts = [
+    xpath ? `xpath:${xpath}` : (css ?? ""),
+    attribute ? `@${attribute}` : "",
+    jsonLd ? ` json-ld:${jsonLd}` : "",
+    regex ? ` ${regex}` : "",
+  ];
+  return parts.join("").trim() || "(event)";
+}
+
+function toBrowserFieldSelector(
+  config: FieldSelectorConfig,
+  options: FieldOptions = {},
+): BrowserFieldSelector {
+  const { css, xpath, attribute, jsonLd } = toFieldSelector(config);
+  return {
+    css,
+    xpath,
+    attribute: attribute ?? (jsonLd ? undefined : options.attribute),
+    jsonLd: !!jsonLd,
+  };
+}
+
+/**
+ * Find the description selector for the domain of the detail page. The links
+ * are tried in order so the url a detail link redirected to can be checked
+ * before the link itself. Selectors match their domain and its subdomains.
+ */
+export function findDescriptionSelector(
+  selectors: WebsiteContentSelector[],
+  links: Nilable<string>[],
+) {
+  for (const link of links) {
+    if (!link) continue;
+    const host = getDomain(link);
+    const selector =
+      selectors.find(
+        (s) =>
+          host === s.domain.replace(/^www\./, "") ||
+          host.endsWith(`.${s.domain}`),
+      ) ?? selectors.find((s) => link.includes(s.domain));
+    if (selector) return selector;
+  }
+  return undefined;
+}
+
+/**
+ * Get the value at the path (ex. "location.name" or "offers.0.url") of the
+ * JSON-LD data. Lists without an index use their first item.
+ */
+export function getJsonLdValue(data: unknown, path: string): unknown {
+  let value = data;
+  for (const key of path.split(".").filter(Boolean)) {
+    if (Array.isArray(value) && !/^\d+$/.test(key)) value = value[0];
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Get the schema.org `Event` from a JSON-LD document. The document can be the
+ * event itself, a list or a `@graph` of items.
+ */
+export function findJsonLdEvent(data: unknown): unknown {
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && "@graph" in data
+      ? ((data as { "@graph": unknown[] })["@graph"] ?? [])
+      : [data];
+  return items.find(isSchemaEvent) ?? items[0];
+}
+
+/**
+ * Apply the JSON-LD path, regex and whitespace clean up to the value read from
+ * the page.
+ */
+export function resolveFieldValue(
+  config: FieldSelectorConfig,
+  raw: RawFieldValue,
+  options: FieldOptions = {},
+): string | null {
+  const { jsonLd, regex } = toFieldSelector(config);
+
+  let value: Nilable<string>;
+  if (jsonLd) {
+    value = [raw ?? []]
+      .flat()
+      .map((text) => getJsonLdValue(findJsonLdEvent(parseJson(text)), jsonLd))
+      .filter((v) => v != null && typeof v !== "object")
+      .map(String)[0];
+  } else {
+    value = Array.isArray(raw) ? raw[0] : raw;
+  }
+
+  value = options.keepWhitespace ? value?.trim() : normalizeWhitespace(value);
+  if (value && regex) {
+    const match = value.match(regex);
+    value = match ? (match[1] ?? match[0]).trim() : null;
+  }
+  return value || null;
+}
+
+/**
+ * Read the fields from each element matching the event selector. The values
+ * are read in the browser and then resolved with `resolveFieldValue`.
+ */
+export async function extractEventFields<K extends string>(
+  page: ScrapePage,
+  eventSelector: string,
+  fields: Record<K, FieldSelectorConfig>,
+  options: Partial<Record<K, FieldOptions>> = {},
+): Promise<Record<K, string | null>[]> {
+  const keys = Object.keys(fields) as K[];
+  const browserFields = keys.map((key) =>
+    toBrowserFieldSelector(fields[key], options[key]),
+  );
+
+  const rawValues = await page.$$eval(
+    eventSelector,
+    (elements, browserFields) =>
+      elements.map((el) =>
+        browserFields.map((field): string | string[] | null => {
+          // Find the element (or attribute or text node) to read.
+          let target: Node | null = el;
+          if (field.xpath) {
+            target = document.evaluate(
+              field.xpath,
+              el,
+              null,
+              XPathResult.FIRST_ORDERED_NODE_TYPE,
+              null,
+            ).singleNodeValue;
+          } else if (field.css) {
+            target = el.querySelector(field.css);
+          }
+          if (!target) return null;
+          if (!(target instanceof Element)) return target.textContent;
+
+          if (field.jsonLd) {
+            const selector = 'script[type="application/ld+json"]';
+            const scripts = target.matches(selector)
+              ? [target]
+              : Array.from(target.querySelectorAll(selector));
+            return scripts.map((script) => script.textContent ?? "");
+          }
+          return field.attribute
+            ? target.getAttribute(field.attribute)
+            : target.textContent;
+        }),
+      ),
+    browserFields,
+  );
+
+  return rawValues.map(
+    (values) =>
+      Object.fromEntries(
+        keys.map((key, i) => [
+          key,
+          resolveFieldValue(fields[key], values[i], options[key]),
+        ]),
+      ) as Record<K, string | null>,
+  );
+}
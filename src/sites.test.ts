@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { readdir, readFile, writeFile } from "fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+
+import { addPageHook, launchBrowser } from "./browser";
+import { loadWebsiteConfigs } from "./config-loader";
+import { normalizeEventDate } from "./dates";
+import {
+  createFixtureBand,
+  createReplayCache,
+  getFixtureDir,
+  loadFixtureSite,
+  replayResponses,
+  startReplayServer,
+} from "./fixtures";
+import { createScheduler } from "./scheduler";
+import { getRelevanceForEvents, loadAllEventSummaries } from "./scraper";
+import type { WebsiteConfig } from "./types";
+
+const FIXTURES_DIR = path.resolve("fixtures");
+const SNAPSHOT_FILE = "events.snapshot.json";
+
+/**
+ * Compare the value to the snapshot saved in `file`. The snapshot is only
+ * written when `UPDATE_SNAPSHOTS` is set.
+ */
+async function matchSnapshot(file: string, value: unknown) {
+  const actual = JSON.parse(JSON.stringify(value));
+
+  if (process.env.UPDATE_SNAPSHOTS) {
+    await writeFile(file, JSON.stringify(actual, null, 2) + "\n");
+    return;
+  }
+  if (!existsSync(file)) {
+    assert.fail(
+      `${file} is missing (run the tests with UPDATE_SNAPSHOTS=1 to write it)`,
+    );
+  }
+
+  const expected = JSON.parse(await readFile(file, "utf-8"));
+  assert.deepEqual(actual, expected);
+}
+
+/**
+ * Get the website configs along with the configs of the hand written fixtures.
+ */
+async function loadSites() {
+  const sites = await loadWebsiteConfigs();
+  const dirs = existsSync(FIXTURES_DIR) ? await readdir(FIXTURES_DIR) : [];
+
+  for (const key of dirs) {
+    const site = await loadFixtureSite(getFixtureDir(FIXTURES_DIR, key));
+    if (site) sites[key] = site;
+  }
+  return sites;
+}
+
+test("site configs extract events from the recorded pages", async (t) => {
+  const sites = await loadSites();
+
+  for (const [key, config] of Object.entries(sites)) {
+    const fixtureDir = getFixtureDir(FIXTURES_DIR, key);
+
+    await t.test(
+      key,
+      {
+        skip:
+          !existsSync(fixtureDir) &&
+          `no fixtures recorded (run \`yarn gig-check record ${key}\`)`,
+      },
+      async () => {
+        const server = await startReplayServer(fixtureDir);
+        // Sites using the http engine read the recorded pages from the replay
+        // server without the browser. The others are replayed in the browser.
+        const http = config.engine === "http";
+        const site: WebsiteConfig = http
+          ? config
+          : { ...config, engine: "browser" };
+        const browser = http ? undefined : await launchBrowser();
+        const cache = http ? createReplayCache(server.url) : undefined;
+        if (browser) {
+          addPageHook(browser, (page) => replayResponses(page, server.url));
+        }
+        // The pages are local so there's no need to wait between them.
+        const scheduler = createScheduler({
+          defaultRateLimit: { concurrency: 1, delay: 0 },
+        });
+
+        try {
+          const { recordedAt, limit, timeout } = server.index;
+          const [result] = await loadAllEventSummaries(
+            [site],
+            [],
+            browser,
+            timeout,
+            { scheduler, cache },
+          );
+          await getRelevanceForEvents(
+            [result],
+            createFixtureBand(site),
+            browser,
+            limit,
+            timeout,
+            scheduler,
+            cache,
+          );
+
+          // Parse the dates relative to when the site was recorded so that dates
+          // without a year don't change over time.
+          const events = result.events?.map((event) =>
+            normalizeEventDate(event, site, new Date(recordedAt)),
+          );
+          await matchSnapshot(path.join(fixtureDir, SNAPSHOT_FILE), {
+            events,
+            errors: result.errors?.map((error) => error.message),
+          });
+        } finally {
+          await browser?.close();
+          await server.close();
+        }
+      },
+    );
+  }
+});
@@ -0,0 +1,448 @@
+import assert from "node:assert/strict";
+import { access, mkdtemp, readFile, rm, utimes, writeFile } from "fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+
+import {
+  getCheckpointFile,
+  importEvents,
+  loadCheckpoint,
+  openEventStore,
+  openExistingEventStore,
+  removeCheckpoint,
+  saveCheckpoint,
+} from "./store";
+import { getEventId } from "./identity";
+import { createEvent } from "./test-helpers";
+import type { Event, EventsResult, ScrapeErrorRecord } from "./types";
+
+const URL = "https://venue.example.com/events";
+const FIRST_RUN = new Date("2099-11-01T12:00:00.000Z");
+const SECOND_RUN = new Date("2099-11-02T12:00:00.000Z");
+
+function createError(
+  message: string,
+  error: Partial<ScrapeErrorRecord> = {},
+): ScrapeErrorRecord {
+  return {
+    site: URL,
+    phase: "detail",
+    kind: "timeout",
+    message,
+    time: FIRST_RUN.toISOString(),
+    ...error,
+  };
+}
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "gig-check-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("the SQLite store loads the events from the latest run of each site", async () => {
+  const file = path.join(dir, "latest.db");
+  let store = await openEventStore(file);
+  assert.equal(store.type, "sqlite");
+  assert.deepEqual(await store.load(), []);
+
+  await store.save(
+    [
+      {
+        url: URL,
+        events: [
+          createEvent("first", { relevance: ["funk"], score: 1 }),
+          createEvent("gone"),
+        ],
+        errors: [createError("Unable to load gone")],
+      },
+    ],
+    { startedAt: FIRST_RUN },
+  );
+  await store.save(
+    [
+      {
+        url: URL,
+        events: [createEvent("new"), createEvent("first")],
+        booking: "booking@venue.example.com",
+      },
+    ],
+    { startedAt: SECOND_RUN },
+  );
+  store.close();
+
+  // Reopen the database to make sure everything was persisted.
+  store = await openEventStore(file);
+  const [site] = await store.load();
+  store.close();
+
+  assert.equal(site.url, URL);
+  assert.equal(site.booking, "booking@venue.example.com");
+  assert.deepEqual(site.errors, []);
+  assert.deepEqual(
+    site.events?.map((e) => [e.name, e.firstSeen, e.lastSeen]),
+    [
+      ["new", SECOND_RUN.toISOString(), SECOND_RUN.toISOString()],
+      ["first", FIRST_RUN.toISOString(), SECOND_RUN.toISOString()],
+    ],
+  );
+});
+
+test("the SQLite store keeps the history of runs and removed events", async () => {
+  const file = path.join(dir, "history.db");
+  const store = await openEventStore(file);
+  await store.save(
+    [
+      {
+        url: URL,
+        events: [createEvent("gone")],
+        errors: [
+          createError("broken", { phase: "load-more", kind: "selector" }),
+        ],
+      },
+    ],
+    { startedAt: FIRST_RUN },
+  );
+  await store.save(
+    [
+      {
+        url: URL,
+        events: [],
+        removed: [createEvent("gone", { status: "removed" })],
+      },
+    ],
+    { startedAt: SECOND_RUN },
+  );
+  store.close();
+
+  const { DatabaseSync } = await import("node:sqlite");
+  const db = new DatabaseSync(file);
+  try {
+    assert.deepEqual(
+      db
+        .prepare("SELECT started_at FROM runs ORDER BY id")
+        .all()
+        .map((row) => row.started_at),
+      [FIRST_RUN.toISOString(), SECOND_RUN.toISOString()],
+    );
+    const gone = db
+      .prepare("SELECT data, last_seen FROM events WHERE name = 'gone'")
+      .get();
+    assert.equal(gone?.last_seen, FIRST_RUN.toISOString());
+    assert.equal(JSON.parse(String(gone?.data)).status, "removed");
+    const error = db.prepare("SELECT message, phase, kind FROM errors").get();
+    assert.deepEqual(
+      [error?.message, error?.phase, error?.kind],
+      ["broken", "load-more", "selector"],
+    );
+  } finally {
+    db.close();
+  }
+});
+
+test("the SQLite store keeps the latest events of sites whose list failed", async () => {
+  const file = path.join(dir, "list-error.db");
+  let store = await openEventStore(file);
+  await store.save([{ url: URL, events: [createEvent("first")] }], {
+    startedAt: FIRST_RUN,
+  });
+  await store.save(
+    [
+      {
+        url: URL,
+        events: [createEvent("first", { score: 2 })],
+        errors: [
+          createError("Error fetching events", { phase: "list" }),
+          createError("Not cached", { kind: "cache" }),
+        ],
+      },
+    ],
+    { startedAt: SECOND_RUN },
+  );
+  store.close();
+
+  store = await openEventStore(file);
+  const [site] = await store.load();
+  const history = await store.loadErrors();
+  store.close();
+
+  assert.deepEqual(
+    site.events?.map((e) => [e.name, e.score, e.lastSeen]),
+    [["first", 2, FIRST_RUN.toISOString()]],
+  );
+  assert.deepEqual(history.runs, [
+    SECOND_RUN.toISOString(),
+    FIRST_RUN.toISOString(),
+  ]);
+  assert.deepEqual(
+    history.errors.map((e) => [e.message, e.run]),
+    [["Error fetching events", SECOND_RUN.toISOString()]],
+  );
+});
+
+test("openExistingEventStore doesn't create a missing database", async () => {
+  const file = path.join(dir, "missing.db");
+  await assert.rejects(openExistingEventStore(file), {
+    message: `No gigs found in ${file}. Run a search first.`,
+  });
+  await assert.rejects(access(file));
+});
+
+test("the JSON store overwrites the file on every run", async () => {
+  const file = path.join(dir, "gigs.json");
+  const store = await openEventStore(file);
+  assert.equal(store.type, "json");
+
+  await store.save([{ url: URL, events: [createEvent("gone")] }], {
+    startedAt: FIRST_RUN,
+  });
+  const sites: EventsResult[] = [
+    {
+      url: URL,
+      events: [createEvent("new", { firstSeen: FIRST_RUN.toISOString() })],
+    },
+  ];
+  await store.save(sites, { startedAt: SECOND_RUN });
+
+  const [site] = JSON.parse(await readFile(file, "utf-8"));
+  assert.deepEqual(await store.load(), [site]);
+  assert.deepEqual(
+    site.events.map((e: Event) => [e.name, e.firstSeen, e.lastSeen]),
+    [["new", FIRST_RUN.toISOString(), SECOND_RUN.toISOString()]],
+  );
+});
+
+test("importEvents saves each JSON file as a run, oldest first", async () => {
+  const older = path.join(dir, "older.json");
+  const newer = path.join(dir, "newer.json");
+  await writeFile(
+    older,
+    JSON.stringify([{ url: URL, events: [createEvent("first")] }]),
+  );
+  await writeFile(
+    newer,
+    JSON.stringify([
+      { url: URL, events: [createEvent("first"), createEvent("second")] },
+    ]),
+  );
+  await utimes(older, FIRST_RUN, FIRST_RUN);
+  await utimes(newer, SECOND_RUN, SECOND_RUN);
+
+  const file = path.join(dir, "imported.db");
+  await importEvents([newer, older], file);
+
+  const store = await openEventStore(file);
+  const [site] = await store.load();
+  store.close();
+  assert.deepEqual(
+    site.events?.map((e) => [e.name, e.firstSeen]),
+    [
+      ["first", FIRST_RUN.toISOString()],
+      ["second", SECOND_RUN.toISOString()],
+    ],
+  );
+});
+
+test("importEvents parses the dates of events from older files", async () => {
+  const source = path.join(dir, "undated.json");
+  const other = "https://other.example.com/events";
+  const undated = (name: string, date: string): Event => {
+    const { isoDate, ...event } = createEvent(name, { date });
+    return event;
+  };
+  await writeFile(
+    source,
+    JSON.stringify([
+      { url: URL, events: [undated("Funk Night", "Fri Dec 4 8pm")] },
+      { url: other, events: [undated("Soul Night", "04/12")] },
+    ]),
+  );
+  await utimes(source, FIRST_RUN, FIRST_RUN);
+
+  const file = path.join(dir, "undated.db");
+  await importEvents([source], file, [
+    { url: other, structuredData: true, dateFormat: { order: "dmy" } },
+  ]);
+
+  const store = await openEventStore(file);
+  const sites = await store.load();
+  store.close();
+  // The events keep the ids they get when they're scraped again.
+  assert.deepEqual(
+    sites.flatMap(
+      (site) => site.events?.map((e) => [getEventId(e), e.startTime]) ?? [],
+    ),
+    [
+      ["funk night|2099-12-04|", "20:00"],
+      ["soul night|2099-12-04|", null],
+    ],
+  );
+});
+
+for (const name of ["triage.db", "triage.json"]) {
+  test(`the ${name.split(".")[1]} store keeps each band's triage decisions`, async () => {
+    const file = path.join(dir, name);
+    let store = await openEventStore(file);
+    await store.saveTriage("Moongold", {
+      events: {
+        "funk night|2099-12-04|": {
+          status: "contacted",
+          note: "emailed the booker",
+          updated: FIRST_RUN.toISOString(),
+        },
+      },
+      ignore: [{ pattern: "Groovenix", created: FIRST_RUN.toISOString() }],
+    });
+    store.close();
+
+    store = await openEventStore(file);
+    assert.deepEqual(await store.loadTriage("Other Band"), {
+      events: {},
+      ignore: [],
+    });
+    assert.deepEqual(await store.loadTriage("Moongold"), {
+      events: {
+        "funk night|2099-12-04|": {
+          status: "contacted",
+          note: "emailed the booker",
+          updated: FIRST_RUN.toISOString(),
+        },
+      },
+      ignore: [{ pattern: "Groovenix", created: FIRST_RUN.toISOString() }],
+    });
+    store.close();
+  });
+}
+
+test("checkpoints are only resumed by a recent search of the same files", async () => {
+  const file = getCheckpointFile(path.join(dir, "resume.db"));
+  assert.equal(file, path.join(dir, "resume.checkpoint.json"));
+  const files = [path.join(dir, "resume.db")];
+
+  saveCheckpoint(file, {
+    startedAt: FIRST_RUN.toISOString(),
+    files,
+    sites: [
+      {
+        url: URL,
+        events: [createEvent("saved")],
+        errors: [createError("boom")],
+      },
+    ],
+  });
+
+  const checkpoint = await loadCheckpoint(file, files, FIRST_RUN);
+  assert.deepEqual(checkpoint?.sites[0].errors, [createError("boom")]);
+  assert.equal(checkpoint?.sites[0].events?.[0].name, "saved");
+
+  assert.equal(await loadCheckpoint(file, ["other.db"], FIRST_RUN), undefined);
+  const nextWeek = new Date(FIRST_RUN.getTime() + 7 * 24 * 60 * 60 * 1000);
+  assert.equal(await loadCheckpoint(file, files, nextWeek), undefined);
+
+  await removeCheckpoint(file);
+  assert.equal(await loadCheckpoint(file, files, FIRST_RUN), undefined);
+});
+
+test("the SQLite store loads the errors of the latest runs", async () => {
+  const file = path.join(dir, "errors.db");
+  let store = await openEventStore(file);
+  await store.save([{ url: URL, events: [], errors: [createError("first")] }], {
+    startedAt: FIRST_RUN,
+  });
+  store.close();
+
+  // Errors saved before their phase and kind were recorded only have their
+  // message.
+  const { DatabaseSync } = await import("node:sqlite");
+  const db = new DatabaseSync(file);
+  db.prepare("INSERT INTO runs (started_at, finished_at) VALUES (?, ?)").run(
+    SECOND_RUN.toISOString(),
+    SECOND_RUN.toISOString(),
+  );
+  db.prepare(
+    "INSERT INTO errors (run_id, site_url, message) VALUES (2, ?, ?)",
+  ).run(URL, "Error fetching booking information from /contact: HTTP 503");
+  db.close();
+
+  store = await openEventStore(file);
+  const history = await store.loadErrors(1);
+  assert.deepEqual(history.runs, [SECOND_RUN.toISOString()]);
+  assert.deepEqual(history.errors, [
+    {
+      site: URL,
+      phase: "booking",
+      kind: "http",
+      message: "Error fetching booking information from /contact: HTTP 503",
+      time: SECOND_RUN.toISOString(),
+      run: SECOND_RUN.toISOString(),
+    },
+  ]);
+  assert.deepEqual(
+    (await store.loadErrors()).errors.map((e) => e.message),
+    ["first", "Error fetching booking information from /contact: HTTP 503"],
+  );
+  store.close();
+});
+
+for (const name of ["artists.db", "artists.json"]) {
+  test(`the ${name.split(".")[1]} store caches artist bios`, async () => {
+    const file = path.join(dir, name);
+    const profile = {
+      key: "https://venue.example.com/artists/horns",
+      name: "The Horns",
+      url: "https://venue.example.com/artists/horns",
+      bio: "Funky horns",
+      matches: ["funk*"],
+      score: 1,
+      fetched: FIRST_RUN.toISOString(),
+      sites: [URL],
+    };
+    let store = await openEventStore(file);
+    await store.saveArtists([profile, { ...profile, key: "name:dj" }]);
+    await store.saveArtists([{ ...profile, bio: "Funk", score: 2 }]);
+    store.close();
+
+    store = await openEventStore(file);
+    assert.deepEqual(
+      (await store.loadArtists()).map((p) => [p.key, p.bio, p.score]),
+      [
+        [profile.key, "Funk", 2],
+        ["name:dj", "Funky horns", 1],
+      ],
+    );
+    store.close();
+  });
+}
+
+for (const name of ["rescore.db", "rescore.json"]) {
+  test(`the ${name.split(".")[1]} store updates the events without recording a run`, async () => {
+    const file = path.join(dir, name);
+    let store = await openEventStore(file);
+    await store.save(
+      [
+        {
+          url: URL,
+          events: [createEvent("Funk Night", { description: "Funk" })],
+        },
+      ],
+      { startedAt: FIRST_RUN },
+    );
+    const sites = await store.load();
+    sites[0].events![0].score = 2;
+    await store.updateEvents(sites);
+    store.close();
+
+    store = await openEventStore(file);
+    const [event] = (await store.load())[0].events!;
+    assert.equal(event.description, "Funk");
+    assert.equal(event.score, 2);
+    assert.equal(event.lastSeen, FIRST_RUN.toISOString());
+    assert.equal((await store.loadErrors()).runs.length, 1);
+    store.close();
+  });
+}
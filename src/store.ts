@@ -0,0 +1,829 @@
+import chalk from "chalk";
+import { constants, writeFileSync } from "fs";
+import { access, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+import type {
+  ArtistProfile,
+  Event,
+  EventsResult,
+  IgnoreRule,
+  ScrapeErrorKind,
+  ScrapeErrorRecord,
+  ScrapePhase,
+  Triage,
+  TriageEntry,
+  WebsiteConfig,
+} from "./types";
+import { normalizeEventDate } from "./dates";
+import {
+  ErrorHistory,
+  hasListError,
+  isCacheError,
+  toErrorRecord,
+} from "./errors";
+import { getEventId } from "./identity";
+import { spinner } from "./spinner";
+import { countEvents } from "./util";
+
+export type StoreType = "sqlite" | "json";
+
+/**
+ * Information about the run that found the events being saved.
+ */
+export interface RunInfo {
+  /**
+   * When the scrape started. This is used as the time the events were seen.
+   */
+  startedAt: Date;
+}
+
+/**
+ * The progress of a search that hasn't finished, saved so that an interrupted
+ * run can pick up where it stopped.
+ */
+export interface Checkpoint {
+  /**
+   * When the interrupted search started (ISO timestamp).
+   */
+  startedAt: string;
+  /**
+   * The gig files the search saves to. Only a search saving to the same files
+   * resumes from the checkpoint.
+   */
+  files: string[];
+  /**
+   * The sites loaded so far along with the event details loaded for them.
+   */
+  sites: EventsResult[];
+}
+
+/**
+ * Checkpoints older than this are from an abandoned search and are ignored.
+ */
+const MAX_CHECKPOINT_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Where the events found on each run are kept between runs.
+ */
+export interface EventStore {
+  type: StoreType;
+  file: string;
+  /**
+   * Load the events that were found on the latest run of each site.
+   */
+  load(): Promise<EventsResult[]>;
+  /**
+   * Save the events found on a run. The SQLite store keeps the events that are
+   * no longer listed on the venue websites as history.
+   */
+  save(sites: EventsResult[], run: RunInfo): Promise<void>;
+  /**
+   * Replace the stored data of the loaded events (ex. after scoring them again)
+   * without recording a run.
+   */
+  updateEvents(sites: EventsResult[]): Promise<void>;
+  /**
+   * Load the band's triage decisions and ignore rules.
+   */
+  loadTriage(band: string): Promise<Triage>;
+  /**
+   * Replace the band's triage decisions and ignore rules.
+   */
+  saveTriage(band: string, triage: Triage): Promise<void>;
+  /**
+   * Load the errors from the latest runs. The JSON store only keeps the latest
+   * run.
+   */
+  loadErrors(runs?: number): Promise<ErrorHistory>;
+  /**
+   * Load the cached artist bios.
+   */
+  loadArtists(): Promise<ArtistProfile[]>;
+  /**
+   * Add or replace the cached bios of the artists.
+   */
+  saveArtists(profiles: ArtistProfile[]): Promise<void>;
+  close(): void;
+}
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sites (
+    url TEXT PRIMARY KEY,
+    last_run_id INTEGER REFERENCES runs(id),
+    booking TEXT
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    site_url TEXT NOT NULL REFERENCES sites(url),
+    event_id TEXT NOT NULL,
+    name TEXT,
+    date TEXT,
+    iso_date TEXT,
+    detail_link TEXT,
+    score REAL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    first_run_id INTEGER NOT NULL REFERENCES runs(id),
+    last_run_id INTEGER NOT NULL REFERENCES runs(id),
+    PRIMARY KEY (site_url, event_id)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_run ON events(site_url, last_run_id);
+  CREATE TABLE IF NOT EXISTS errors (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES runs(id),
+    site_url TEXT NOT NULL REFERENCES sites(url),
+    message TEXT NOT NULL,
+    event_id TEXT,
+    url TEXT,
+    phase TEXT,
+    kind TEXT,
+    screenshot TEXT,
+    created_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS triage (
+    band TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    note TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (band, event_id)
+  );
+  CREATE TABLE IF NOT EXISTS artists (
+    key TEXT PRIMARY KEY,
+    name TEXT,
+    url TEXT,
+    bio TEXT NOT NULL,
+    matches TEXT NOT NULL,
+    score REAL NOT NULL,
+    fetched_at TEXT NOT NULL,
+    sites TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS ignore_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    band TEXT NOT NULL,
+    pattern TEXT NOT NULL,
+    note TEXT,
+    created_at TEXT NOT NULL
+  );
+`;
+
+/**
+ * Get the store type from the file extension. Anything other than a JSON file
+ * is stored in SQLite.
+ */
+export function getStoreType(file: string): StoreType {
+  return path.extname(file).toLowerCase() === ".json" ? "json" : "sqlite";
+}
+
+/**
+ * Get the file next to a JSON store that keeps the triage decisions of each
+ * band (ex. gigs.triage.json).
+ */
+export function getTriageFile(file: string) {
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.triage${ext}`;
+}
+
+/**
+ * Get the file next to a JSON store that keeps the cached artist bios (ex.
+ * gigs.artists.json).
+ */
+export function getArtistsFile(file: string) {
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.artists${ext}`;
+}
+
+/**
+ * Get the file next to the gig file that keeps the progress of an unfinished
+ * search (ex. gigs.checkpoint.json).
+ */
+export function getCheckpointFile(file: string) {
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.checkpoint.json`;
+}
+
+async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    await access(file, constants.F_OK);
+  } catch (err) {
+    return fallback;
+  }
+  return JSON.parse(await readFile(file, "utf-8")) as T;
+}
+
+/**
+ * Convert the errors saved by older versions (as messages) to error records.
+ */
+function normalizeErrors(site: EventsResult, time: string): EventsResult {
+  if (!site.errors) return site;
+  return {
+    ...site,
+    errors: site.errors.map((error) => toErrorRecord(site.url, error, time)),
+  };
+}
+
+/**
+ * Get the site with only the errors that are saved to the store.
+ */
+function getSiteToSave(site: EventsResult, time: string): EventsResult {
+  const { errors } = normalizeErrors(site, time);
+  return errors
+    ? { ...site, errors: errors.filter((error) => !isCacheError(error)) }
+    : site;
+}
+
+/**
+ * Load the checkpoint of an unfinished search that saves to the same files.
+ * Returns `undefined` if there isn't one or it's too old to resume.
+ */
+export async function loadCheckpoint(
+  file: string,
+  files: string[],
+  now = new Date(),
+): Promise<Checkpoint | undefined> {
+  const checkpoint = await readJsonFile<Checkpoint | null>(file, null);
+  if (!checkpoint) return undefined;
+
+  const age = now.getTime() - new Date(checkpoint.startedAt).getTime();
+  if (!(age >= 0 && age <= MAX_CHECKPOINT_AGE)) return undefined;
+  if (checkpoint.files.join("\n") !== files.join("\n")) return undefined;
+  return {
+    ...checkpoint,
+    sites: checkpoint.sites.map((site) =>
+      normalizeErrors(site, checkpoint.startedAt),
+    ),
+  };
+}
+
+/**
+ * Save the progress of the search. This is synchronous so that it can run when
+ * the process is interrupted.
+ */
+export function saveCheckpoint(file: string, checkpoint: Checkpoint) {
+  writeFileSync(file, JSON.stringify(checkpoint, null, 2));
+}
+
+/**
+ * Remove the checkpoint once the search has finished.
+ */
+export async function removeCheckpoint(file: string) {
+  await rm(file, { force: true });
+}
+
+/**
+ * Store the events as a single `EventsResult[]` JSON file that is overwritten
+ * on every run.
+ */
+function openJsonStore(file: string): EventStore {
+  const load = async () => {
+    try {
+      await access(file, constants.F_OK);
+      const sites = JSON.parse(await readFile(file, "utf-8")) as EventsResult[];
+      // Errors saved as messages get the time the file was written.
+      const time = (await stat(file)).mtime.toISOString();
+      return sites.map((site) => normalizeErrors(site, time));
+    } catch (err) {
+      return [];
+    }
+  };
+
+  return {
+    type: "json",
+    file,
+    load,
+    async save(sites, { startedAt }) {
+      const seen = startedAt.toISOString();
+      const out = sites.map((site) => ({
+        ...getSiteToSave(site, seen),
+        // The events of sites whose list failed to load weren't seen again.
+        events: hasListError(site)
+          ? site.events
+          : site.events?.map((event) => ({
+              ...event,
+              firstSeen: event.firstSeen ?? seen,
+              lastSeen: seen,
+            })),
+      }));
+      await writeFile(file, JSON.stringify(out, null, 2));
+    },
+    async updateEvents(sites) {
+      await writeFile(file, JSON.stringify(sites, null, 2));
+    },
+    async loadTriage(band) {
+      const triage = await readJsonFile<Record<string, Triage>>(
+        getTriageFile(file),
+        {},
+      );
+      return triage[band] ?? { events: {}, ignore: [] };
+    },
+    async saveTriage(band, triage) {
+      const triageFile = getTriageFile(file);
+      const out = await readJsonFile<Record<string, Triage>>(triageFile, {});
+      out[band] = triage;
+      await writeFile(triageFile, JSON.stringify(out, null, 2));
+    },
+    async loadErrors() {
+      const sites = await load();
+      const seen = sites.flatMap(
+        (site) => site.events?.map((event) => event.lastSeen ?? "") ?? [],
+      );
+      const run =
+        seen.sort().at(-1) ||
+        (sites.length ? (await stat(file)).mtime.toISOString() : undefined);
+      return {
+        runs: run ? [run] : [],
+        errors: run
+          ? sites.flatMap((site) =>
+              (site.errors ?? []).map((error) => ({ ...error, run })),
+            )
+          : [],
+      };
+    },
+    async loadArtists() {
+      return readJsonFile<ArtistProfile[]>(getArtistsFile(file), []);
+    },
+    async saveArtists(profiles) {
+      const artistsFile = getArtistsFile(file);
+      const out = new Map(
+        (await readJsonFile<ArtistProfile[]>(artistsFile, [])).map((p) => [
+          p.key,
+          p,
+        ]),
+      );
+      for (const profile of profiles) out.set(profile.key, profile);
+      await writeFile(artistsFile, JSON.stringify([...out.values()], null, 2));
+    },
+    close() {},
+  };
+}
+
+async function loadSqlite() {
+  try {
+    return await import("node:sqlite");
+  } catch (e) {
+    throw new Error(
+      `The SQLite store requires Node 22.13 or newer (running ${process.version}). Use a .json --file to store gigs as JSON instead.`,
+      { cause: e },
+    );
+  }
+}
+
+/**
+ * Get the error record from a row of the errors table joined with its run.
+ * Errors saved before the phase was recorded only have their message.
+ */
+function toStoredErrorRecord(row: unknown): ScrapeErrorRecord {
+  const {
+    site_url,
+    message,
+    event_id,
+    url,
+    phase,
+    kind,
+    screenshot,
+    created_at,
+    started_at,
+  } = row as Record<string, string | null>;
+  if (!phase) return toErrorRecord(site_url!, message!, started_at!);
+  return {
+    site: site_url!,
+    ...(event_id ? { eventId: event_id } : {}),
+    ...(url ? { url } : {}),
+    phase: phase as ScrapePhase,
+    kind: (kind ?? "other") as ScrapeErrorKind,
+    message: message!,
+    time: created_at ?? started_at!,
+    ...(screenshot ? { screenshot } : {}),
+  };
+}
+
+/**
+ * Run the callback in a database transaction.
+ */
+function transaction<T>(db: DatabaseSync, callback: () => T) {
+  db.exec("BEGIN");
+  try {
+    const out = callback();
+    db.exec("COMMIT");
+    return out;
+  } catch (e) {
+    db.exec("ROLLBACK");
+    throw e;
+  }
+}
+
+/**
+ * Store the events in a SQLite database that keeps every run along with when
+ * each event was first and last seen.
+ */
+async function openSqliteStore(file: string): Promise<EventStore> {
+  const { DatabaseSync } = await loadSqlite();
+  const db = new DatabaseSync(file);
+  db.exec(SQLITE_SCHEMA);
+
+  const insertRun = db.prepare(
+    "INSERT INTO runs (started_at, finished_at) VALUES (?, ?)",
+  );
+  const upsertSite = db.prepare(
+    `INSERT INTO sites (url, last_run_id, booking) VALUES (?, ?, ?)
+     ON CONFLICT (url) DO UPDATE SET
+       last_run_id = excluded.last_run_id,
+       booking = excluded.booking`,
+  );
+  const insertSite = db.prepare(
+    "INSERT INTO sites (url) VALUES (?) ON CONFLICT (url) DO NOTHING",
+  );
+  const upsertEvent = db.prepare(
+    `INSERT INTO events (
+       site_url, event_id, name, date, iso_date, detail_link, score, position,
+       data, first_seen, last_seen, first_run_id, last_run_id
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (site_url, event_id) DO UPDATE SET
+       name = excluded.name,
+       date = excluded.date,
+       iso_date = excluded.iso_date,
+       detail_link = excluded.detail_link,
+       score = excluded.score,
+       position = excluded.position,
+       data = excluded.data,
+       last_seen = excluded.last_seen,
+       last_run_id = excluded.last_run_id`,
+  );
+  const updateRemovedEvent = db.prepare(
+    "UPDATE events SET data = ? WHERE site_url = ? AND event_id = ?",
+  );
+  const updateEventData = db.prepare(
+    "UPDATE events SET data = ?, score = ? WHERE site_url = ? AND event_id = ?",
+  );
+  const insertError = db.prepare(
+    `INSERT INTO errors (
+       run_id, site_url, message, event_id, url, phase, kind, screenshot,
+       created_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const selectSites = db.prepare(
+    "SELECT url, last_run_id, booking FROM sites WHERE last_run_id IS NOT NULL ORDER BY rowid",
+  );
+  const selectEvents = db.prepare(
+    `SELECT data, first_seen, last_seen FROM events
+     WHERE site_url = ? AND last_run_id = ? ORDER BY position`,
+  );
+  const selectSiteErrors = db.prepare(
+    `SELECT errors.*, runs.started_at FROM errors
+     JOIN runs ON runs.id = errors.run_id
+     WHERE site_url = ? AND run_id = ? ORDER BY errors.id`,
+  );
+  const selectRuns = db.prepare(
+    "SELECT id, started_at FROM runs ORDER BY id DESC LIMIT ?",
+  );
+  const selectRunErrors = db.prepare(
+    `SELECT errors.*, runs.started_at FROM errors
+     JOIN runs ON runs.id = errors.run_id
+     WHERE run_id >= ? ORDER BY errors.id`,
+  );
+  const selectTriage = db.prepare(
+    "SELECT event_id, status, note, updated_at FROM triage WHERE band = ?",
+  );
+  const deleteTriage = db.prepare("DELETE FROM triage WHERE band = ?");
+  const insertTriage = db.prepare(
+    `INSERT INTO triage (band, event_id, status, note, updated_at)
+     VALUES (?, ?, ?, ?, ?)`,
+  );
+  const selectArtists = db.prepare(
+    `SELECT key, name, url, bio, matches, score, fetched_at, sites FROM artists
+     ORDER BY key`,
+  );
+  const upsertArtist = db.prepare(
+    `INSERT INTO artists (
+       key, name, url, bio, matches, score, fetched_at, sites
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET
+       name = excluded.name,
+       url = excluded.url,
+       bio = excluded.bio,
+       matches = excluded.matches,
+       score = excluded.score,
+       fetched_at = excluded.fetched_at,
+       sites = excluded.sites`,
+  );
+  const selectIgnoreRules = db.prepare(
+    "SELECT pattern, note, created_at FROM ignore_rules WHERE band = ? ORDER BY id",
+  );
+  const deleteIgnoreRules = db.prepare(
+    "DELETE FROM ignore_rules WHERE band = ?",
+  );
+  const insertIgnoreRule = db.prepare(
+    `INSERT INTO ignore_rules (band, pattern, note, created_at)
+     VALUES (?, ?, ?, ?)`,
+  );
+
+  return {
+    type: "sqlite",
+    file,
+    async load() {
+      return selectSites.all().map((site): EventsResult => {
+        const { url, last_run_id, booking } = site as {
+          url: string;
+          last_run_id: number;
+          booking: string | null;
+        };
+        const events = selectEvents.all(url, last_run_id).map((row) => {
+          const { data, first_seen, last_seen } = row as Record<string, string>;
+          return {
+            ...(JSON.parse(data) as Event),
+            firstSeen: first_seen,
+            lastSeen: last_seen,
+          };
+        });
+        const errors = selectSiteErrors
+          .all(url, last_run_id)
+          .map(toStoredErrorRecord);
+        return booking
+          ? { url, events, booking, errors }
+          : { url, events, errors };
+      });
+    },
+    async save(sites, { startedAt }) {
+      const seen = startedAt.toISOString();
+      // The site errors include the errors for each of its events.
+      const insertErrors = (site: EventsResult, runId: number) => {
+        for (const error of getSiteToSave(site, seen).errors ?? []) {
+          insertError.run(
+            runId,
+            site.url,
+            error.message,
+            error.eventId ?? null,
+            error.url ?? null,
+            error.phase,
+            error.kind,
+            error.screenshot ?? null,
+            error.time,
+          );
+        }
+      };
+
+      transaction(db, () => {
+        const runId = Number(
+          insertRun.run(seen, new Date().toISOString()).lastInsertRowid,
+        );
+
+        for (const site of sites) {
+          // Sites whose list failed to load stay on the run they were last
+          // listed on. Only the scores of their events are updated.
+          if (hasListError(site)) {
+            insertSite.run(site.url);
+            for (const event of site.events ?? []) {
+              const { firstSeen, lastSeen, ...data } = event;
+              updateEventData.run(
+                JSON.stringify(data),
+                event.score ?? null,
+                site.url,
+                getEventId(event),
+              );
+            }
+            insertErrors(site, runId);
+            continue;
+          }
+          upsertSite.run(site.url, runId, site.booking ?? null);
+
+          site.events?.forEach((event, position) => {
+            const { firstSeen, lastSeen, ...data } = event;
+            upsertEvent.run(
+              site.url,
+              getEventId(event),
+              event.name ?? null,
+              event.date ?? null,
+              event.isoDate ?? null,
+              event.detailLink ?? null,
+              event.score ?? null,
+              position,
+              JSON.stringify(data),
+              firstSeen ?? seen,
+              seen,
+              runId,
+              runId,
+            );
+          });
+
+          // Keep the history of the events that are no longer listed.
+          for (const event of site.removed ?? []) {
+            const { firstSeen, lastSeen, ...data } = event;
+            updateRemovedEvent.run(
+              JSON.stringify(data),
+              site.url,
+              getEventId(event),
+            );
+          }
+
+          insertErrors(site, runId);
+        }
+      });
+    },
+    async updateEvents(sites) {
+      transaction(db, () => {
+        for (const site of sites) {
+          for (const event of site.events ?? []) {
+            const { firstSeen, lastSeen, ...data } = event;
+            updateEventData.run(
+              JSON.stringify(data),
+              event.score ?? null,
+              site.url,
+              getEventId(event),
+            );
+          }
+        }
+      });
+    },
+    async loadTriage(band) {
+      const events: Record<string, TriageEntry> = {};
+      for (const row of selectTriage.all(band)) {
+        const { event_id, status, note, updated_at } = row as Record<
+          string,
+          string | null
+        >;
+        events[event_id!] = {
+          status: status as TriageEntry["status"],
+          ...(note ? { note } : {}),
+          updated: updated_at!,
+        };
+      }
+      const ignore = selectIgnoreRules.all(band).map((row): IgnoreRule => {
+        const { pattern, note, created_at } = row as Record<
+          string,
+          string | null
+        >;
+        return {
+          pattern: pattern!,
+          ...(note ? { note } : {}),
+          created: created_at!,
+        };
+      });
+      return { events, ignore };
+    },
+    async saveTriage(band, triage) {
+      transaction(db, () => {
+        deleteTriage.run(band);
+        for (const [id, entry] of Object.entries(triage.events)) {
+          insertTriage.run(
+            band,
+            id,
+            entry.status,
+            entry.note ?? null,
+            entry.updated,
+          );
+        }
+        deleteIgnoreRules.run(band);
+        for (const rule of triage.ignore) {
+          insertIgnoreRule.run(
+            band,
+            rule.pattern,
+            rule.note ?? null,
+            rule.created,
+          );
+        }
+      });
+    },
+    async loadErrors(runs = 10) {
+      const rows = selectRuns.all(runs) as { id: number; started_at: string }[];
+      if (!rows.length) return { runs: [], errors: [] };
+
+      return {
+        runs: rows.map((row) => row.started_at),
+        errors: selectRunErrors.all(rows.at(-1)!.id).map((row) => ({
+          ...toStoredErrorRecord(row),
+          run: (row as { started_at: string }).started_at,
+        })),
+      };
+    },
+    async loadArtists() {
+      return selectArtists.all().map((row): ArtistProfile => {
+        const { key, name, url, bio, matches, score, fetched_at, sites } =
+          row as Record<string, string | null>;
+        return {
+          key: key!,
+          ...(name ? { name } : {}),
+          ...(url ? { url } : {}),
+          bio: bio!,
+          matches: JSON.parse(matches!),
+          score: Number(score),
+          fetched: fetched_at!,
+          sites: JSON.parse(sites!),
+        };
+      });
+    },
+    async saveArtists(profiles) {
+      transaction(db, () => {
+        for (const profile of profiles) {
+          upsertArtist.run(
+            profile.key,
+            profile.name ?? null,
+            profile.url ?? null,
+            profile.bio,
+            JSON.stringify(profile.matches),
+            profile.score,
+            profile.fetched,
+            JSON.stringify(profile.sites),
+          );
+        }
+      });
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Open the store for the given file. The store type is determined by the file
+ * extension unless it is given.
+ */
+export async function openEventStore(
+  file: string,
+  type: StoreType = getStoreType(file),
+): Promise<EventStore> {
+  return type === "json" ? openJsonStore(file) : openSqliteStore(file);
+}
+
+/**
+ * Open the store of the previous searches. Fails when the file doesn't exist
+ * instead of creating an empty database.
+ */
+export async function openExistingEventStore(file: string) {
+  await access(file, constants.F_OK).catch((e) => {
+    throw new Error(`No gigs found in ${file}. Run a search first.`, {
+      cause: e,
+    });
+  });
+  return openEventStore(file);
+}
+
+/**
+ * Parse the dates of the events saved before their ISO date was, using the
+ * date format of the site's config. Dates without a year are read relative to
+ * when the file was saved.
+ */
+function addMissingEventDates(
+  sites: EventsResult[],
+  websiteConfigs: WebsiteConfig[],
+  saved: Date,
+) {
+  return sites.map((site) => {
+    const config = websiteConfigs.find((c) => c.url === site.url) ?? {};
+    return {
+      ...site,
+      events: site.events?.map((event) =>
+        event.isoDate === undefined
+          ? normalizeEventDate(event, config, saved)
+          : event,
+      ),
+    };
+  });
+}
+
+/**
+ * Import the events from existing gigs.json files into the store. Each file is
+ * saved as a separate run, oldest file first. Older files are given the ISO
+ * dates of their events so they keep the same ids on the next search.
+ */
+export async function importEvents(
+  sources: string[],
+  file: string,
+  websiteConfigs: WebsiteConfig[] = [],
+) {
+  const files = await Promise.all(
+    sources.map(async (source) => ({
+      source,
+      modified: (await stat(source)).mtime,
+    })),
+  );
+  files.sort((a, b) => a.modified.getTime() - b.modified.getTime());
+
+  const store = await openEventStore(file);
+  try {
+    for (const { source, modified } of files) {
+      spinner.start(`Importing ${chalk.yellow(source)}`);
+      const sites = JSON.parse(await readFile(source, "utf-8"));
+      if (!Array.isArray(sites)) {
+        throw new Error(`${source} does not contain a list of sites`);
+      }
+
+      await store.save(
+        addMissingEventDates(sites as EventsResult[], websiteConfigs, modified),
+        { startedAt: modified },
+      );
+      spinner.succeed(
+        `${chalk.green(countEvents(sites))} events imported from ${chalk.yellow(source)}`,
+      );
+    }
+  } finally {
+    store.close();
+  }
+}
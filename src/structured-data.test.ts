@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  buildMicrodataItems,
+  getStructuredEvents,
+  matchStructuredEvent,
+  toEvent,
+} from "./structured-data";
+
+const JSON_LD = {
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "Organization", name: "The Venue" },
+    {
+      "@type": "ItemList",
+      itemListElement: [
+        {
+          "@type": "ListItem",
+          item: {
+            "@type": "MusicEvent",
+            name: "Funk Night &amp; Friends",
+            startDate: "2099-12-04T20:00:00-05:00",
+            url: "https://venue.example.com/events/funk-night",
+            description: "<p>A night of <b>funk</b>.</p><p>All ages</p>",
+            performer: [
+              { "@type": "MusicGroup", name: "The Funk Band" },
+              "DJ Groove",
+            ],
+            offers: { "@type": "Offer", url: "https://tickets.example.com/1" },
+          },
+        },
+      ],
+    },
+  ],
+};
+
+test("getStructuredEvents reads events from graphs and item lists", () => {
+  assert.deepEqual(getStructuredEvents([JSON_LD]), [
+    {
+      name: "Funk Night & Friends",
+      startDate: "2099-12-04T20:00:00-05:00",
+      description: "A night of funk .\nAll ages",
+      url: "https://venue.example.com/events/funk-night",
+      performers: ["The Funk Band", "DJ Groove"],
+      offerUrl: "https://tickets.example.com/1",
+    },
+  ]);
+});
+
+test("buildMicrodataItems nests items and merges them with JSON-LD", () => {
+  const items = buildMicrodataItems([
+    {
+      type: "https://schema.org/MusicEvent",
+      props: [
+        { name: "name", value: "Funk Night & Friends", scope: null },
+        { name: "startDate", value: "2099-12-04T20:00:00-05:00", scope: null },
+        { name: "performer", value: null, scope: 1 },
+      ],
+    },
+    {
+      type: "https://schema.org/MusicGroup",
+      props: [{ name: "name", value: "The Horns", scope: null }],
+    },
+  ]);
+  assert.deepEqual(items[0].performer, {
+    "@type": "MusicGroup",
+    name: "The Horns",
+  });
+
+  const events = getStructuredEvents([JSON_LD, ...items]);
+  assert.equal(events.length, 1);
+  assert.deepEqual(events[0].performers, [
+    "The Funk Band",
+    "DJ Groove",
+    "The Horns",
+  ]);
+  assert.equal(events[0].offerUrl, "https://tickets.example.com/1");
+});
+
+test("toEvent fills in the event summary", () => {
+  const [structured] = getStructuredEvents([JSON_LD]);
+  assert.deepEqual(toEvent(structured), {
+    name: "Funk Night & Friends",
+    date: "2099-12-04T20:00:00-05:00",
+    description: "A night of funk .\nAll ages",
+    detailLink: "https://venue.example.com/events/funk-night",
+    relevance: null,
+    page: 0,
+    performers: ["The Funk Band", "DJ Groove"],
+    offerUrl: "https://tickets.example.com/1",
+  });
+});
+
+test("matchStructuredEvent finds the event on a detail page", () => {
+  const events = [
+    { name: "Funk Night", performers: [] },
+    { name: "Jazz Brunch", performers: [] },
+  ];
+  assert.equal(
+    matchStructuredEvent(events, { name: "JAZZ BRUNCH" }),
+    events[1],
+  );
+  assert.equal(matchStructuredEvent(events, { name: "Open Mic" }), undefined);
+  assert.equal(
+    matchStructuredEvent(events.slice(0, 1), { name: "Open Mic" }),
+    events[0],
+  );
+});
@@ -0,0 +1,277 @@
+import type { Event, Nilable } from "./types";
+import type { ScrapePage } from "./browser";
+import { normalizeEventName } from "./identity";
+import { normalizeWhitespace } from "./util";
+
+/**
+ * The fields of a schema.org `Event` that we use.
+ */
+export interface StructuredEvent {
+  name?: string;
+  /**
+   * The ISO date (and time) the event starts.
+   */
+  startDate?: string;
+  description?: string;
+  /**
+   * The event page.
+   */
+  url?: string;
+  /**
+   * The names of the performers.
+   */
+  performers: string[];
+  /**
+   * The ticket link from the event's offers.
+   */
+  offerUrl?: string;
+}
+
+/**
+ * A microdata item (`itemscope` element) as read from the page. Nested items
+ * refer to the index of their scope.
+ */
+export interface MicrodataScope {
+  type: string;
+  props: { name: string; value: string | null; scope: number | null }[];
+}
+
+type Item = Record<string, unknown>;
+
+function isItem(value: unknown): value is Item {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+/**
+ * Whether the JSON-LD or microdata item is a schema.org `Event` (or one of its
+ * sub types like `MusicEvent`).
+ */
+export function isSchemaEvent(item: unknown) {
+  return (
+    isItem(item) &&
+    [item["@type"]]
+      .flat()
+      .some((type) => typeof type === "string" && /Event$/.test(type))
+  );
+}
+
+/**
+ * Convert the microdata scopes read from the page to JSON-LD style items.
+ */
+export function buildMicrodataItems(scopes: MicrodataScope[]): Item[] {
+  const items = scopes.map((scope): Item => ({
+    "@type": scope.type.split(/[/#]/).pop() ?? "",
+  }));
+  scopes.forEach((scope, i) => {
+    for (const prop of scope.props) {
+      const value = prop.scope != null ? items[prop.scope] : prop.value;
+      if (value == null) continue;
+
+      for (const name of prop.name.split(/\s+/).filter(Boolean)) {
+        const existing = items[i][name];
+        items[i][name] = existing == null ? value : [existing, value].flat();
+      }
+    }
+  });
+  return items;
+}
+
+/**
+ * Find all of the events in the structured data, including events in lists
+ * (ex. an `ItemList` of events) and `@graph`s. Events are returned in the
+ * order they appear in.
+ */
+export function findEventItems(data: unknown[]): Item[] {
+  const out: Item[] = [];
+  const pending = [...data];
+  const seen = new Set<unknown>();
+  while (pending.length) {
+    const value = pending.shift();
+    if (seen.has(value)) continue;
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      pending.unshift(...value);
+    } else if (isSchemaEvent(value)) {
+      out.push(value as Item);
+    } else if (isItem(value)) {
+      pending.unshift(value["@graph"], value.itemListElement, value.item);
+    }
+  }
+  return out;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Remove HTML tags and entities from the structured data text.
+ */
+function cleanText(value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const text = String(value)
+    .replace(/<(br|\/p|\/div|\/li)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? entity;
+      const n =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) ? entity : String.fromCodePoint(n);
+    });
+  return (
+    text
+      .split("\n")
+      .map((line) => normalizeWhitespace(line))
+      .filter(Boolean)
+      .join("\n") || undefined
+  );
+}
+
+function getName(value: unknown) {
+  return cleanText(isItem(value) ? value.name : value);
+}
+
+function getUrl(value: unknown) {
+  const url = isItem(value) ? (value.url ?? value["@id"]) : value;
+  return typeof url === "string" && /^https?:\/\//.test(url) ? url : undefined;
+}
+
+/**
+ * Get the fields we use from a schema.org `Event`.
+ */
+export function toStructuredEvent(item: Item): StructuredEvent {
+  const performers = [item.performer ?? []]
+    .flat()
+    .map(getName)
+    .filter((name): name is string => !!name);
+  return {
+    name: getName(item),
+    startDate: cleanText([item.startDate].flat()[0]),
+    description: cleanText([item.description].flat()[0]),
+    url: getUrl(item),
+    performers: [...new Set(performers)],
+    offerUrl: [item.offers ?? []].flat().map(getUrl).find(Boolean),
+  };
+}
+
+/**
+ * Get the events from the structured data. Events that show up more than once
+ * (ex. in both the JSON-LD and the microdata) are merged.
+ */
+export function getStructuredEvents(data: unknown[]): StructuredEvent[] {
+  const events = new Map<string, StructuredEvent>();
+  for (const item of findEventItems(data)) {
+    const event = toStructuredEvent(item);
+    if (!event.name) continue;
+
+    const key = `${normalizeEventName(event.name)}|${event.startDate ?? ""}`;
+    const existing = events.get(key);
+    events.set(key, {
+      ...event,
+      ...Object.fromEntries(
+        Object.entries(existing ?? {}).filter(([, v]) => v != null),
+      ),
+      performers: [
+        ...new Set([...(existing?.performers ?? []), ...event.performers]),
+      ],
+    });
+  }
+  return [...events.values()];
+}
+
+/**
+ * Convert a structured event to an event summary. Events without a description
+ * have their detail page loaded like any other event.
+ */
+export function toEvent(event: StructuredEvent, page = 0): Event {
+  return {
+    name: event.name,
+    date: event.startDate ?? null,
+    description: event.description ?? null,
+    detailLink: event.url ?? event.offerUrl ?? null,
+    relevance: null,
+    page,
+    performers: event.performers.length ? event.performers : undefined,
+    offerUrl: event.offerUrl,
+  };
+}
+
+/**
+ * Find the structured event on a detail page that describes the event. Pages
+ * with a single event are assumed to be about that event.
+ */
+export function matchStructuredEvent(
+  events: StructuredEvent[],
+  event: Pick<Event, "name">,
+): StructuredEvent | undefined {
+  if (events.length === 1) return events[0];
+  const name = normalizeEventName(event.name);
+  return events.find((e) => normalizeEventName(e.name) === name);
+}
+
+/**
+ * Parse the JSON of a JSON-LD script. Returns `undefined` when it isn't valid.
+ */
+export function parseJson(text: Nilable<string>) {
+  try {
+    return JSON.parse(text ?? "");
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Read the JSON-LD scripts and microdata items from the page.
+ */
+export async function readStructuredData(page: ScrapePage): Promise<unknown[]> {
+  const { scripts, scopes } = await page.evaluate(() => {
+    const scopeElements = Array.from(document.querySelectorAll("[itemscope]"));
+    return {
+      scripts: Array.from(
+        document.querySelectorAll('script[type="application/ld+json"]'),
+      ).map((script) => script.textContent),
+      scopes: scopeElements.map((scope) => ({
+        type: scope.getAttribute("itemtype") ?? "",
+        props: Array.from(scope.querySelectorAll("[itemprop]"))
+          // Only keep the properties of this item (not of nested items).
+          .filter(
+            (prop) => prop.parentElement?.closest("[itemscope]") === scope,
+          )
+          .map((prop) => ({
+            name: prop.getAttribute("itemprop") ?? "",
+            scope: prop.hasAttribute("itemscope")
+              ? scopeElements.indexOf(prop)
+              : null,
+            value: prop.hasAttribute("itemscope")
+              ? null
+              : (prop.getAttribute("content") ??
+                prop.getAttribute("datetime") ??
+                (prop instanceof HTMLAnchorElement ||
+                prop instanceof HTMLLinkElement
+                  ? prop.href
+                  : prop.textContent)),
+          })),
+      })),
+    };
+  });
+
+  return [
+    ...scripts.map(parseJson).filter((data) => data != null),
+    ...buildMicrodataItems(scopes),
+  ];
+}
+
+/**
+ * Read the schema.org events from the page.
+ */
+export async function loadStructuredEvents(page: ScrapePage) {
+  return getStructuredEvents(await readStructuredData(page));
+}
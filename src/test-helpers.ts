@@ -0,0 +1,18 @@
+import type { Event } from "./types";
+
+/**
+ * Create an event for the tests. The event is on Dec 4 2099 (so it hasn't
+ * happened yet) and hasn't been scored unless the fields are given.
+ */
+export function createEvent(name: string, event: Partial<Event> = {}): Event {
+  return {
+    name,
+    date: "Fri Dec 4",
+    isoDate: "2099-12-04",
+    description: null,
+    detailLink: null,
+    relevance: null,
+    page: 0,
+    ...event,
+  };
+}
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+import { test } from "node:test";
+
+import type { EventChange } from "./lifecycle";
+import { createEvent } from "./test-helpers";
+import {
+  addIgnoreRule,
+  createPrompt,
+  createTriage,
+  groupByTriageStatus,
+  moveTriageEntries,
+  promptForTriage,
+  setTriageStatus,
+  withIgnoreRules,
+} from "./triage";
+import type { EventsResult } from "./types";
+
+const NOW = new Date("2099-11-01T12:00:00Z");
+
+test("setTriageStatus keeps the note unless a new one is given", () => {
+  const triage = createTriage();
+  const event = createEvent("Funk Night");
+
+  setTriageStatus(triage, event, "contacted", "emailed the booker", NOW);
+  setTriageStatus(triage, event, "booked", undefined, NOW);
+  assert.deepEqual(Object.values(triage.events), [
+    {
+      status: "booked",
+      note: "emailed the booker",
+      updated: NOW.toISOString(),
+    },
+  ]);
+});
+
+test("withIgnoreRules adds the ignored acts to the band filters", () => {
+  const triage = createTriage();
+  const band = {
+    name: "Moongold",
+    genres: [],
+    sites: [],
+    filter: ["Groovenix"],
+  };
+  assert.equal(withIgnoreRules(band, triage), band);
+
+  addIgnoreRule(triage, "Madams Dance Party", "not our crowd", NOW);
+  addIgnoreRule(triage, "madams dance party", undefined, NOW);
+  assert.deepEqual(withIgnoreRules(band, triage).filter, [
+    "Groovenix",
+    "Madams Dance Party",
+  ]);
+});
+
+test("moveTriageEntries follows events that were rescheduled", () => {
+  const triage = createTriage();
+  const previous = createEvent("Funk Night");
+  const event = createEvent("Funk Night", { isoDate: "2099-12-11" });
+  setTriageStatus(triage, previous, "interested", undefined, NOW);
+
+  const changes: EventChange[] = [
+    { site: "a", status: "modified", event, previous, changes: [] },
+  ];
+  assert.equal(moveTriageEntries(triage, changes), true);
+  assert.deepEqual(Object.keys(triage.events), ["funk night|2099-12-11|"]);
+  assert.equal(moveTriageEntries(triage, changes), false);
+});
+
+test("groupByTriageStatus groups the triaged events and leaves out ignored ones", () => {
+  const triage = createTriage();
+  const events = ["Booked", "Ignored", "Interested", "New"].map((name) =>
+    createEvent(name),
+  );
+  const sites: EventsResult[] = [
+    { url: "a", events },
+    { url: "b", events: [] },
+  ];
+  assert.deepEqual(groupByTriageStatus(sites, triage), [
+    { status: undefined, sites },
+  ]);
+
+  setTriageStatus(triage, events[0], "booked", undefined, NOW);
+  setTriageStatus(triage, events[1], "ignored", undefined, NOW);
+  setTriageStatus(triage, events[2], "interested", undefined, NOW);
+  assert.deepEqual(
+    groupByTriageStatus(sites, triage).map((g) => [
+      g.status,
+      g.sites.flatMap((s) => s.events?.map((e) => e.name)),
+    ]),
+    [
+      ["booked", ["Booked"]],
+      ["interested", ["Interested"]],
+      [undefined, ["New"]],
+    ],
+  );
+});
+
+test("promptForTriage reads the decisions from piped input", async () => {
+  const input = new PassThrough();
+  const prompt = createPrompt(input, new PassThrough());
+  input.end("?\nc\nsent an email\na\n\n\n");
+
+  const event = createEvent("Funk Night");
+  assert.deepEqual(await promptForTriage(prompt, event), {
+    type: "status",
+    status: "contacted",
+    note: "sent an email",
+  });
+  assert.deepEqual(await promptForTriage(prompt, event), {
+    type: "ignore",
+    pattern: "Funk Night",
+    note: undefined,
+  });
+  assert.deepEqual(await promptForTriage(prompt, event), { type: "quit" });
+  prompt.close();
+});
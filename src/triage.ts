@@ -0,0 +1,260 @@
+import chalk from "chalk";
+import { createInterface } from "node:readline";
+
+import type {
+  BandBaseConfiguration,
+  Event,
+  EventsResult,
+  IgnoreRule,
+  Nilable,
+  Triage,
+  TriageEntry,
+  TriageStatus,
+} from "./types";
+import { getEventId } from "./identity";
+import type { EventChange } from "./lifecycle";
+
+/**
+ * The order that triaged events are grouped in when they are printed.
+ */
+export const TRIAGE_STATUSES: TriageStatus[] = [
+  "booked",
+  "contacted",
+  "interested",
+  "ignored",
+];
+
+export const TRIAGE_TITLES: Record<TriageStatus | "untriaged", string> = {
+  booked: "Booked",
+  contacted: "Contacted",
+  interested: "Interested",
+  ignored: "Ignored",
+  untriaged: "Not triaged",
+};
+
+/**
+ * The keys used to answer the triage prompt.
+ */
+const TRIAGE_KEYS: Record<string, TriageStatus | "act" | "skip" | "quit"> = {
+  i: "interested",
+  c: "contacted",
+  b: "booked",
+  x: "ignored",
+  a: "act",
+  s: "skip",
+  "": "skip",
+  q: "quit",
+};
+
+const TRIAGE_PROMPT =
+  "[i]nterested, [c]ontacted, [b]ooked, [x] ignore, [a] ignore the act forever, [s]kip, [q]uit: ";
+
+/**
+ * A decision made while triaging an event.
+ */
+export type TriageDecision =
+  | { type: "status"; status: TriageStatus; note?: string }
+  | { type: "ignore"; pattern: string; note?: string }
+  | { type: "skip" }
+  | { type: "quit" };
+
+export function createTriage(): Triage {
+  return { events: {}, ignore: [] };
+}
+
+/**
+ * Get the triage entry for the event.
+ */
+export function getTriageEntry(
+  event: Event,
+  triage: Nilable<Triage>,
+): TriageEntry | undefined {
+  return triage?.events[getEventId(event)];
+}
+
+/**
+ * Whether the band marked the event as ignored. Events matching an ignore rule
+ * are handled by the band filters (see `withIgnoreRules`).
+ */
+export function isIgnoredEvent(event: Event, triage: Nilable<Triage>) {
+  return getTriageEntry(event, triage)?.status === "ignored";
+}
+
+/**
+ * Add the band's stored ignore rules to its filters so the ignored acts are
+ * skipped wherever the filters are used.
+ */
+export function withIgnoreRules<T extends BandBaseConfiguration>(
+  band: T,
+  triage: Nilable<Triage>,
+): T {
+  if (!triage?.ignore.length) return band;
+  return {
+    ...band,
+    filter: [...(band.filter ?? []), ...triage.ignore.map((r) => r.pattern)],
+  };
+}
+
+/**
+ * Set the triage status of the event. The note is kept when a new one isn't
+ * given.
+ */
+export function setTriageStatus(
+  triage: Triage,
+  event: Event,
+  status: TriageStatus,
+  note?: string,
+  now = new Date(),
+) {
+  const id = getEventId(event);
+  const entry: TriageEntry = {
+    status,
+    note: note || triage.events[id]?.note,
+    updated: now.toISOString(),
+  };
+  if (!entry.note) delete entry.note;
+  triage.events[id] = entry;
+  return entry;
+}
+
+/**
+ * Add a rule that ignores every event whose name matches the pattern.
+ */
+export function addIgnoreRule(
+  triage: Triage,
+  pattern: string,
+  note?: string,
+  now = new Date(),
+) {
+  const existing = triage.ignore.find(
+    (r) => r.pattern.toLowerCase() === pattern.toLowerCase(),
+  );
+  if (existing) return existing;
+
+  const rule: IgnoreRule = { pattern, created: now.toISOString() };
+  if (note) rule.note = note;
+  triage.ignore.push(rule);
+  return rule;
+}
+
+/**
+ * Keep the triage decisions of events whose identity changed because they were
+ * renamed or rescheduled. Returns whether any entries were moved.
+ */
+export function moveTriageEntries(triage: Triage, changes: EventChange[]) {
+  let moved = false;
+  for (const { event, previous, status } of changes) {
+    if (status !== "modified" || !previous) continue;
+
+    const from = getEventId(previous);
+    const to = getEventId(event);
+    if (from === to || !triage.events[from] || triage.events[to]) continue;
+
+    triage.events[to] = triage.events[from];
+    delete triage.events[from];
+    moved = true;
+  }
+  return moved;
+}
+
+/**
+ * Split the events into groups by their triage status (booked, contacted,
+ * interested and then events that haven't been triaged). Ignored events are
+ * left out. Sites without events are only kept when nothing has been triaged.
+ */
+export function groupByTriageStatus(
+  sites: EventsResult[],
+  triage: Nilable<Triage>,
+) {
+  const statuses = [
+    ...TRIAGE_STATUSES.filter((s) => s !== "ignored"),
+    undefined,
+  ] as const;
+  const groups = statuses.map((status) => ({
+    status,
+    sites: sites
+      .map((site) => ({
+        ...site,
+        events: (site.events ?? []).filter(
+          (e) => getTriageEntry(e, triage)?.status === status,
+        ),
+      }))
+      .filter((site) => site.events.length),
+  }));
+
+  const triaged = groups.filter((g) => g.status && g.sites.length);
+  const untriaged = groups[groups.length - 1];
+  if (!triaged.length) return [{ status: undefined, sites }];
+  return untriaged.sites.length ? [...triaged, untriaged] : triaged;
+}
+
+/**
+ * Asks a question and resolves with the trimmed answer or `undefined` once the
+ * input has ended.
+ */
+export interface Prompt {
+  ask(question: string): Promise<string | undefined>;
+  close(): void;
+}
+
+/**
+ * Create a prompt that reads answers from stdin one line at a time. Lines
+ * that are piped in before the question is asked are kept for the next
+ * question.
+ */
+export function createPrompt(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+): Prompt {
+  const rl = createInterface({ input, output, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    async ask(question) {
+      output.write(question);
+      const { value, done } = await lines.next();
+      return done ? undefined : String(value).trim();
+    },
+    close() {
+      rl.close();
+    },
+  };
+}
+
+async function askForNote(prompt: Prompt, current?: string) {
+  const answer = await prompt.ask(
+    current ? `Note [${current}]: ` : "Note (optional): ",
+  );
+  return answer || undefined;
+}
+
+/**
+ * Ask what to do about the event. Quits when the input ends.
+ */
+export async function promptForTriage(
+  prompt: Prompt,
+  event: Event,
+  current?: TriageEntry,
+): Promise<TriageDecision> {
+  for (;;) {
+    const answer = await prompt.ask(TRIAGE_PROMPT);
+    if (answer == null) return { type: "quit" };
+    const choice = TRIAGE_KEYS[answer.toLowerCase()];
+
+    if (!choice) {
+      console.log(chalk.yellow(`Unknown choice: ${answer}`));
+    } else if (choice === "skip" || choice === "quit") {
+      return { type: choice };
+    } else if (choice === "act") {
+      const name = event.name || "";
+      const pattern = (await prompt.ask(`Act to ignore [${name}]: `)) || name;
+      if (!pattern) continue;
+      return { type: "ignore", pattern, note: await askForNote(prompt) };
+    } else {
+      return {
+        type: "status",
+        status: choice,
+        note: await askForNote(prompt, current?.note),
+      };
+    }
+  }
+}
@@ -1,6 +1,6 @@
 export type Nilable<T> = T | null | undefined;
 
-interface WebsiteContentSelector {
+export interface WebsiteContentSelector {
   /**
    * The domain on which the selector is valid. Some venue sites will link out
    * to multiple ticketing sites which will each have different selector needs.
@@ -24,6 +24,42 @@ interface WebsiteContentSelector {
   artistDescription?: string;
 }
 
+/**
+ * How to extract a value from an event when the text of a CSS selector isn't
+ * enough (ex. the date is in a `<time datetime>` attribute).
+ */
+export interface FieldSelector {
+  /**
+   * The CSS selector of the element within the event. Defaults to the event
+   * element itself.
+   */
+  css?: string;
+  /**
+   * An XPath expression evaluated from the event element. It can select an
+   * attribute or text node (ex. `.//time/@datetime`).
+   */
+  xpath?: string;
+  /**
+   * Read this attribute instead of the element's text (ex. "datetime" or
+   * "data-date").
+   */
+  attribute?: string;
+  /**
+   * A path into the schema.org JSON-LD script within the element (ex.
+   * "startDate", "location.name" or "offers.0.url").
+   */
+  jsonLd?: string;
+  /**
+   * Only keep the first capture group (or the whole match) of this pattern.
+   */
+  regex?: RegExp;
+}
+
+/**
+ * A CSS selector for the element's text or a `FieldSelector`.
+ */
+export type FieldSelectorConfig = string | FieldSelector;
+
 /**
  * The config for a website that includes all necessary information on the first
  * page.
@@ -34,13 +70,13 @@ export interface SinglePageSiteSelector {
    */
   event: string;
   /**
-   * The CSS selector used to find the date of the event.
+   * The selector used to find the date of the event.
    */
-  date: string;
+  date: FieldSelectorConfig;
   /**
    * The name of the event. This is usually the name of the band(s) playing.
    */
-  name: string;
+  name: FieldSelectorConfig;
   /**
    * A link to load additional events. If this is specified, then it is expected
    * that the page has a "load more" button that will load more events when
@@ -54,6 +90,12 @@ export interface SinglePageSiteSelector {
    * will be tracked to determine when the page has finished loading.
    */
   loadMoreLoader?: string;
+  /**
+   * A link to the next page of events (ex. `a[rel=next]`). Each page is loaded
+   * from the link's `href` which, unlike `loadMoreLink`, works with the `http`
+   * engine.
+   */
+  nextPageLink?: string;
 }
 
 /**
@@ -63,9 +105,10 @@ export interface SinglePageSiteSelector {
 export interface TwoPageSiteSelector extends SinglePageSiteSelector {
   /**
    * A link to the event details page. If this has a value set, that page will
-   * be opened and used to populate the event data.
+   * be opened and used to populate the event data. The `href` attribute is
+   * read unless the selector says otherwise.
    */
-  detailLink: string;
+  detailLink: FieldSelectorConfig;
   /**
    * The container that holds the event description. This is a list
    * because the detail link could point to pages on different sites.
@@ -75,9 +118,50 @@ export interface TwoPageSiteSelector extends SinglePageSiteSelector {
 
 export type Selectors = SinglePageSiteSelector | TwoPageSiteSelector;
 
+/**
+ * A date parsed from the raw date text scraped from a venue website.
+ */
+export interface ParsedEventDate {
+  /**
+   * The ISO date string (YYYY-MM-DD).
+   */
+  date: string;
+  /**
+   * The 24 hour start time (HH:mm) if the date text included one.
+   */
+  time?: string;
+}
+
+/**
+ * Hints used to parse the raw date text for a website.
+ */
+export interface DateFormat {
+  /**
+   * The order of the parts in numeric dates like "10.24.25". Defaults to
+   * month/day/year.
+   */
+  order?: "mdy" | "dmy" | "ymd";
+  /**
+   * A pattern used to extract the date text from the scraped string. The first
+   * capture group (or the whole match) is parsed.
+   */
+  pattern?: RegExp;
+}
+
 export interface Event {
   name: Nilable<string>;
+  /**
+   * The raw date text as it appears on the website.
+   */
   date: Nilable<string>;
+  /**
+   * The ISO date (YYYY-MM-DD) parsed from the raw `date` text.
+   */
+  isoDate?: Nilable<string>;
+  /**
+   * The 24 hour start time (HH:mm) parsed from the raw `date` text.
+   */
+  startTime?: Nilable<string>;
   /**
    * The description text for the event if all the data is available on the
    * first page.
@@ -88,28 +172,308 @@ export interface Event {
    * page.
    */
   detailLink: Nilable<string>;
+  /**
+   * The canonical url the detail link redirected to (ex. a ticketing site)
+   * when it was loaded. Only set when it differs from the detail link.
+   */
+  finalLink?: Nilable<string>;
   /**
    * A list of snippets of text from the event description that are relevant to
    * our genres.
    */
   relevance: Nilable<string[]>;
+  /**
+   * The relevance score calculated from the weights of the matched genres.
+   */
+  score?: Nilable<number>;
+  /**
+   * The genre terms that matched the event description.
+   */
+  matches?: Nilable<string[]>;
   /**
    * The page number on which the event was found. Or in the case of an infinite
    * scroll page, the number of times "load more" was triggered.
    */
   page: number;
+  /**
+   * The names of the performers listed in the event's structured data.
+   */
+  performers?: string[];
+  /**
+   * The ticket link listed in the event's structured data.
+   */
+  offerUrl?: Nilable<string>;
+  /**
+   * The acts on the bill with the relevance of each one (see `getEventLineup`).
+   */
+  lineup?: LineupArtist[];
   /**
    * Whether or not there were any errors scraping the event.
    */
   errors?: string[];
+  /**
+   * The number of runs in which the event details failed to load. Events are
+   * retried on later runs until this reaches `RetryOptions.maxFailures`.
+   */
+  failures?: number;
+  /**
+   * When the event was first found (ISO timestamp).
+   */
+  firstSeen?: Nilable<string>;
+  /**
+   * The last time the event was found on the venue website (ISO timestamp).
+   */
+  lastSeen?: Nilable<string>;
+  /**
+   * How the event changed since the previous run.
+   */
+  status?: EventStatus;
+  /**
+   * The changes to the event across runs (oldest first). Runs where the event
+   * didn't change aren't recorded.
+   */
+  history?: EventHistoryEntry[];
+}
+
+/**
+ * An act on the bill of an event.
+ */
+export interface LineupArtist {
+  name: string;
+  /**
+   * The artist's page from the event's `lineup` links.
+   */
+  url?: Nilable<string>;
+  /**
+   * The artist's bio from their page. Like the event description, it is only
+   * kept until the relevance is calculated.
+   */
+  description?: Nilable<string>;
+  /**
+   * Snippets of the artist's bio (or the parts of the event description that
+   * mention the artist) that are relevant to our genres.
+   */
+  relevance: string[];
+  score?: number;
+  matches?: string[];
+  /**
+   * Whether the artist matches one of the band's filters. Filtered artists
+   * don't count towards the event's relevance.
+   */
+  filtered?: boolean;
+}
+
+export type EventStatus = "new" | "unchanged" | "modified" | "removed";
+
+/**
+ * A field of an event that changed between runs.
+ */
+export interface FieldChange {
+  field: "name" | "date" | "isoDate" | "startTime" | "detailLink";
+  from: Nilable<string>;
+  to: Nilable<string>;
+}
+
+export interface EventHistoryEntry {
+  /**
+   * The run (ISO timestamp) that found the change.
+   */
+  seen: string;
+  status: Exclude<EventStatus, "unchanged">;
+  changes?: FieldChange[];
+}
+
+/**
+ * What the band decided to do about an event.
+ */
+export type TriageStatus = "interested" | "contacted" | "booked" | "ignored";
+
+export interface TriageEntry {
+  status: TriageStatus;
+  note?: string;
+  /**
+   * When the status was last changed (ISO timestamp).
+   */
+  updated: string;
+}
+
+/**
+ * An act the band never wants to see again. The pattern is matched against
+ * event names the same way as the band's `filter` strings.
+ */
+export interface IgnoreRule {
+  pattern: string;
+  note?: string;
+  /**
+   * When the rule was added (ISO timestamp).
+   */
+  created: string;
+}
+
+/**
+ * A band's triage decisions.
+ */
+export interface Triage {
+  /**
+   * The triage entry for each event by its identity (see `getEventId`).
+   */
+  events: Record<string, TriageEntry>;
+  ignore: IgnoreRule[];
+}
+
+/**
+ * The bio of an artist from the lineup of an event (see `lineup` and
+ * `artistDescription`). Bios are cached between runs so each artist's page is
+ * only loaded again once the cached bio is too old.
+ */
+export interface ArtistProfile {
+  /**
+   * The artist's page url or, for artists without a page, their normalized
+   * name (see `getArtistKey`).
+   */
+  key: string;
+  name?: string;
+  url?: string;
+  bio: string;
+  /**
+   * The band's genre terms that matched the bio and their total weight.
+   */
+  matches: string[];
+  score: number;
+  /**
+   * When the bio was loaded (ISO timestamp).
+   */
+  fetched: string;
+  /**
+   * The venue websites with events the artist played.
+   */
+  sites: string[];
+}
+
+/**
+ * A page saved to the page cache (see `openPageCache`). Browser pages are saved
+ * as rendered so that the cached HTML can be read without running scripts.
+ */
+export interface CachedPage {
+  /**
+   * The url that was requested.
+   */
+  url: string;
+  /**
+   * The url the request redirected to.
+   */
+  finalUrl: string;
+  status: number;
+  /**
+   * The validators used to check whether the page changed (HTTP engine only).
+   */
+  etag?: string;
+  lastModified?: string;
+  /**
+   * When the page was loaded or last revalidated (ISO timestamp).
+   */
+  fetched: string;
+  html: string;
 }
 
 export interface EventsResult {
   url: string;
   events?: Event[];
-  errors?: unknown[];
+  /**
+   * The events from the previous run that are no longer listed on the website.
+   */
+  removed?: Event[];
+  /**
+   * The booking information scraped from the venue website (see
+   * `BookingContact.selector`).
+   */
+  booking?: string;
+  errors?: ScrapeErrorRecord[];
+}
+
+/**
+ * What went wrong when loading a page. Timeouts, network and server errors are
+ * usually temporary. Missing selectors usually mean the site changed. Pages
+ * missing from the cache fail with `cache` when searching with `--cache-only`.
+ */
+export type ScrapeErrorKind =
+  "timeout" | "network" | "http" | "selector" | "cache" | "other";
+
+/**
+ * The step of the scrape that failed.
+ */
+export type ScrapePhase =
+  "list" | "load-more" | "detail" | "lineup" | "booking";
+
+/**
+ * An error from scraping a site.
+ */
+export interface ScrapeErrorRecord {
+  /**
+   * The url of the site the error belongs to.
+   */
+  site: string;
+  /**
+   * The id (see `getEventId`) of the event being loaded.
+   */
+  eventId?: string;
+  /**
+   * The page that failed to load.
+   */
+  url?: string;
+  phase: ScrapePhase;
+  kind: ScrapeErrorKind;
+  message: string;
+  /**
+   * When the error happened (ISO timestamp).
+   */
+  time: string;
+  /**
+   * A screenshot of the page when the error happened (see `--screenshots`).
+   */
+  screenshot?: string;
+}
+
+/**
+ * Who to pitch the band to at a venue.
+ */
+export interface BookingContact {
+  /**
+   * The name of the booker.
+   */
+  name?: string;
+  email?: string;
+  /**
+   * The venue's booking form or booking page.
+   */
+  formUrl?: string;
+  /**
+   * The CSS selector used to scrape the booking information from `page`. The
+   * text is loaded again on every search.
+   */
+  selector?: string;
+  /**
+   * The page containing the booking information. Defaults to the website url.
+   */
+  page?: string;
 }
 
+/**
+ * Information about the venue behind a website.
+ */
+export interface Venue {
+  /**
+   * The display name of the venue.
+   */
+  name?: string;
+  address?: string;
+  neighborhood?: string;
+  capacity?: number;
+  booking?: BookingContact;
+}
+
+export type ScrapeEngine = "browser" | "http";
+
 /**
  * The config describing how to scrape a venue website.
  */
@@ -118,19 +482,41 @@ export interface WebsiteConfig {
    * The website where we will search for gig opportunities.
    */
   url: string;
+  /**
+   * Read the events from the schema.org JSON-LD and microdata on the website
+   * and their detail pages. The selectors are only used for pages without
+   * structured data.
+   */
+  structuredData?: boolean;
+  /**
+   * How the pages are loaded. The `http` engine fetches the HTML and reads it
+   * without running the page's scripts, which is much lighter than the browser
+   * but only works for server rendered pages without a "load more" button.
+   * Defaults to `browser`.
+   */
+  engine?: ScrapeEngine;
   /**
    * The list of CSS selectors used to find events and information about those
-   * events.
+   * events. Optional when using `structuredData`.
+   */
+  selectors?: Selectors;
+  /**
+   * The venue and who to contact about booking a show there.
    */
-  selectors: Selectors;
+  venue?: Venue;
+  /**
+   * Hints for parsing the date text scraped from this website.
+   */
+  dateFormat?: DateFormat;
   // /**
   //  * Group any events that are on the same date.
   //  */
   // mergeEvents?: (events: Event[]) => Event[];
-  // /**
-  //  * Convert the date string into separate date and time strings.
-  //  */
-  // normalizeDate?: (date: string) => [string, string];
+  /**
+   * Convert the date string into a parsed date and time. Use this when the
+   * `dateFormat` hints aren't enough to parse the website's dates.
+   */
+  normalizeDate?: (date: string) => Nilable<ParsedEventDate>;
 }
 
 /**
@@ -140,17 +526,78 @@ export type TwoPageWebsiteConfig = Omit<WebsiteConfig, "selectors"> & {
   selectors: TwoPageSiteSelector;
 };
 
+/**
+ * A genre term with options for how it should be matched and scored.
+ */
+export interface WeightedTerm {
+  /**
+   * The text or pattern to search for. Strings match whole words by default.
+   */
+  term: string | RegExp;
+  /**
+   * The amount added to the event score when this term matches. Use a negative
+   * weight for terms that make an event less relevant (ex. "tribute").
+   * Defaults to 1.
+   */
+  weight?: number;
+  /**
+   * Match the case of string terms exactly. Defaults to false.
+   */
+  caseSensitive?: boolean;
+  /**
+   * Allow string terms to match inside of other words. Defaults to false.
+   */
+  partial?: boolean;
+}
+
+export type RelevanceTerm = string | RegExp | WeightedTerm;
+
+/**
+ * The result of scoring an event description against the band's genres.
+ */
+export interface RelevanceResult {
+  score: number;
+  /**
+   * The terms that matched the description.
+   */
+  matches: string[];
+  /**
+   * Snippets of the description around each positive match.
+   */
+  snippets: string[];
+}
+
+/**
+ * A function used to score an event description against the band's genres.
+ */
+export type RelevanceScorer = (
+  description: string,
+  terms: RelevanceTerm[],
+) => RelevanceResult;
+
 /**
  * The minimal configuration for a band as defined in their config file.
  */
 export interface BandBaseConfiguration {
   name: string;
-  genres: string[];
+  genres: RelevanceTerm[];
   sites: string[];
+  /**
+   * The minimum score an event needs to be considered relevant. Defaults to 1.
+   */
+  minScore?: number;
+  /**
+   * Replace the default relevance scoring.
+   */
+  scorer?: RelevanceScorer;
   /**
    * Ignore events that match these filters even if they have a relevance value.
    */
   filter?: (string | RegExp)[];
+  /**
+   * Where to send notifications about new relevant events.
+   */
+  notify?: NotifierConfig[];
 }
 
 /**
@@ -159,3 +606,114 @@ export interface BandBaseConfiguration {
 export interface BandConfig extends BandBaseConfiguration {
   websiteConfigs: WebsiteConfig[];
 }
+
+/**
+ * How quickly pages can be requested from a domain.
+ */
+export interface RateLimit {
+  /**
+   * The maximum number of pages from the domain that can be loading at once.
+   */
+  concurrency?: number;
+  /**
+   * The minimum number of milliseconds between page loads from the domain.
+   */
+  delay?: number;
+}
+
+/**
+ * Rate limits keyed by domain (ex. "eventbrite.com"). A domain also applies to
+ * its subdomains.
+ */
+export type RateLimits = Record<string, RateLimit>;
+
+/**
+ * How failed page loads are retried.
+ */
+export interface RetryOptions {
+  /**
+   * How many times a page load that timed out or failed with a network or
+   * server error is retried.
+   */
+  retries?: number;
+  /**
+   * The milliseconds to wait before the first retry. The wait doubles with
+   * each retry.
+   */
+  backoff?: number;
+  /**
+   * The longest time in milliseconds to wait between retries.
+   */
+  maxBackoff?: number;
+  /**
+   * The number of runs an event's details can fail to load before the event
+   * is no longer retried.
+   */
+  maxFailures?: number;
+}
+
+/**
+ * Send new gigs by email through an SMTP server.
+ */
+export interface EmailNotifierConfig {
+  type: "email";
+  host: string;
+  /**
+   * Defaults to 465 when `secure` is set and 587 otherwise.
+   */
+  port?: number;
+  /**
+   * Connect with TLS (ex. port 465). Otherwise STARTTLS is used when the
+   * server supports it.
+   */
+  secure?: boolean;
+  user?: string;
+  /**
+   * The name of the environment variable holding the SMTP password so that it
+   * doesn't need to be stored in the config file.
+   */
+  passwordEnv?: string;
+  from: string;
+  to: string | string[];
+  subject?: string;
+}
+
+/**
+ * POST the new gigs as JSON to a url.
+ */
+export interface WebhookNotifierConfig {
+  type: "webhook";
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Post a message about the new gigs to a Slack or Discord incoming webhook.
+ */
+export interface ChatNotifierConfig {
+  type: "slack" | "discord";
+  url: string;
+}
+
+/**
+ * Append the new gigs as a line of JSON to a local file.
+ */
+export interface FileNotifierConfig {
+  type: "file";
+  path: string;
+}
+
+/**
+ * Run a shell command with the new gigs passed as JSON on stdin.
+ */
+export interface CommandNotifierConfig {
+  type: "command";
+  command: string;
+}
+
+export type NotifierConfig =
+  | EmailNotifierConfig
+  | WebhookNotifierConfig
+  | ChatNotifierConfig
+  | FileNotifierConfig
+  | CommandNotifierConfig;
@@ -11,6 +11,13 @@ export function normalizeWhitespace(input: Nilable<string>): string {
   }
 }
 
+/**
+ * Wait for the given number of milliseconds.
+ */
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export function countEvents(events: EventsResult[]) {
   return events.reduce((acc, site) => {
     const count = site.events?.length ?? 0;
@@ -40,39 +47,25 @@ export function testStringOrRegex(
 }
 
 /**
- * Search the given string for the given search terms and return snippets of
- * text that contain those search terms.
+ * Get the text between `start` and `end` along with `contextLength` characters
+ * of surrounding context.
  */
-export function findTextSnippets(
+export function createSnippet(
   text: string,
-  searchTerms: string[],
+  start: number,
+  end: number,
   contextLength: number = 100,
-): string[] {
-  const snippets: string[] = [];
-
-  for (const term of searchTerms) {
-    let startIndex = 0;
+) {
+  const snippetStart = Math.max(0, start - contextLength);
+  const snippetEnd = Math.min(text.length, end + contextLength);
 
-    while ((startIndex = text.indexOf(term, startIndex)) !== -1) {
-      const snippetStart = Math.max(0, startIndex - contextLength);
-      const snippetEnd = Math.min(
-        text.length,
-        startIndex + term.length + contextLength,
-      );
-
-      const prefix = snippetStart > 0 ? "..." : "";
-      const suffix = snippetEnd < text.length ? "..." : "";
-
-      const snippet =
-        `${prefix}${text.slice(snippetStart, snippetEnd)}${suffix}`.replaceAll(
-          "\n",
-          " ",
-        );
-      snippets.push(normalizeWhitespace(snippet));
-
-      startIndex += term.length; // Move past the current match
-    }
-  }
+  const prefix = snippetStart > 0 ? "..." : "";
+  const suffix = snippetEnd < text.length ? "..." : "";
 
-  return snippets;
+  const snippet =
+    `${prefix}${text.slice(snippetStart, snippetEnd)}${suffix}`.replaceAll(
+      "\n",
+      " ",
+    );
+  return normalizeWhitespace(snippet);
 }
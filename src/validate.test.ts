@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { test } from "node:test";
+import { stripVTControlCharacters } from "node:util";
+
+import {
+  createReplayCache,
+  loadFixtureSite,
+  startReplayServer,
+} from "./fixtures";
+import {
+  printValidationReport,
+  SelectorCheck,
+  statusFor,
+  validateSite,
+} from "./validate";
+
+const FIXTURE_DIR = path.resolve("fixtures", "example-venue");
+const SAMPLE = "Funk Night at The Example Room, with The Horns ...";
+
+test("statusFor fails required selectors that match nothing", () => {
+  assert.equal(statusFor(3, true), "pass");
+  assert.equal(statusFor(1, false), "pass");
+  assert.equal(statusFor(0, true), "fail");
+  assert.equal(statusFor(0, false), "warn");
+});
+
+test("printValidationReport prints a table for each site", (t) => {
+  const log = t.mock.method(console, "log", () => {});
+  const check = (
+    site: string,
+    field: string,
+    count: number,
+    status: SelectorCheck["status"],
+    note?: string,
+  ): SelectorCheck => ({
+    site,
+    field,
+    selector: `.${field}`,
+    count,
+    sample: "Funk Night at The Example Room, with The Horns and friends",
+    status,
+    note,
+  });
+
+  const passed = printValidationReport([
+    check("https://funk.example.com", "event", 2, "pass"),
+    check("https://funk.example.com", "name", 2, "pass"),
+    check("https://jazz.example.com", "event", 0, "fail", "Timed out"),
+  ]);
+  const lines = log.mock.calls.map((call) =>
+    stripVTControlCharacters(String(call.arguments[0])),
+  );
+
+  assert.equal(passed, false);
+  assert.deepEqual(
+    lines.filter((line) => line.includes("Website: ")),
+    [
+      "\nWebsite: https://funk.example.com",
+      "\nWebsite: https://jazz.example.com",
+    ],
+  );
+  // Passing checks show a shortened sample and the others their note.
+  assert.deepEqual(
+    lines
+      .filter((line) => /^ {2}(PASS|FAIL) /.test(line))
+      .map((line) => line.trim().split(/ {2,}/)),
+    [
+      ["PASS", "event", ".event", "2", SAMPLE],
+      ["PASS", "name", ".name", "2", SAMPLE],
+      ["FAIL", "event", ".event", "0", "Timed out"],
+    ],
+  );
+});
+
+test("validateSite checks each selector of an http site", async () => {
+  const site = await loadFixtureSite(FIXTURE_DIR);
+  assert.ok(site);
+  const server = await startReplayServer(FIXTURE_DIR);
+
+  try {
+    const checks = await validateSite(
+      undefined,
+      site,
+      1000,
+      createReplayCache(server.url),
+    );
+    assert.deepEqual(
+      checks.map((c) => [c.field, c.status, c.count, c.sample ?? c.note]),
+      [
+        ["event", "pass", 2, undefined],
+        ["name", "pass", 2, "Funk Night"],
+        ["date", "pass", 2, "Fri Dec 4 8pm"],
+        ["detailLink", "pass", 2, "/events/funk-night"],
+        ["nextPageLink", "pass", 1, "/events?page=2"],
+        [
+          "description (venue.example.com)",
+          "pass",
+          1,
+          "\n        A night of funk and soul with the house band. Doors at 7pm.\n      ",
+        ],
+        [
+          "description (tickets.example.com)",
+          "skip",
+          0,
+          "No events link to this domain",
+        ],
+      ],
+    );
+  } finally {
+    await server.close();
+  }
+});
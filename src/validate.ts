@@ -0,0 +1,491 @@
+import chalk from "chalk";
+import { Browser } from "puppeteer";
+
+import type {
+  FieldSelectorConfig,
+  Nilable,
+  TwoPageWebsiteConfig,
+  WebsiteConfig,
+} from "./types";
+import {
+  launchBrowser,
+  openSitePage,
+  ScrapePage,
+  usesBrowser,
+} from "./browser";
+import { resolveUrl } from "./identity";
+import type { PageCache } from "./page-cache";
+import { isTwoPageWebsiteConfig } from "./scraper";
+import {
+  describeFieldSelector,
+  extractEventFields,
+  FieldOptions,
+  findDescriptionSelector,
+} from "./selectors";
+import { spinner } from "./spinner";
+import { loadStructuredEvents } from "./structured-data";
+import { normalizeWhitespace } from "./util";
+
+type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+/**
+ * The result of checking a single selector from a website config.
+ */
+export interface SelectorCheck {
+  /**
+   * The url of the website being checked.
+   */
+  site: string;
+  /**
+   * The name of the selector field (ex. "name" or "description (dc9.club)").
+   */
+  field: string;
+  /**
+   * The CSS selector that was checked.
+   */
+  selector: string;
+  /**
+   * The number of elements that matched the selector.
+   */
+  count: number;
+  /**
+   * The text (or link) of the first matching element.
+   */
+  sample?: Nilable<string>;
+  status: CheckStatus;
+  /**
+   * An explanation for skipped or failed checks.
+   */
+  note?: string;
+}
+
+const SAMPLE_LENGTH = 50;
+
+/**
+ * Get the status of a selector from the number of elements it matched.
+ */
+export function statusFor(count: number, required: boolean): CheckStatus {
+  if (count > 0) return "pass";
+  return required ? "fail" : "warn";
+}
+
+/**
+ * Create a check from the selector match results.
+ */
+function createCheck(
+  site: WebsiteConfig,
+  field: string,
+  selector: string,
+  result: { count: number; sample?: Nilable<string> },
+  required: boolean,
+  note?: string,
+): SelectorCheck {
+  return {
+    site: site.url,
+    field,
+    selector,
+    ...result,
+    status: statusFor(result.count, required),
+    note,
+  };
+}
+
+/**
+ * Create a check for a selector that couldn't be tested.
+ */
+function createSkippedCheck(
+  site: WebsiteConfig,
+  field: string,
+  selector: string,
+  note: string,
+): SelectorCheck {
+  return { site: site.url, field, selector, count: 0, status: "skip", note };
+}
+
+/**
+ * Count the elements matching the selector on the page and get a sample of the
+ * first match.
+ */
+async function checkPageSelector(
+  page: ScrapePage,
+  selector: string,
+  attribute?: string,
+) {
+  return page.$$eval(
+    selector,
+    (elements, attribute) => ({
+      count: elements.length,
+      sample: attribute
+        ? elements[0]?.getAttribute(attribute)
+        : elements[0]?.textContent,
+    }),
+    attribute,
+  );
+}
+
+/**
+ * Count the events that have a value for the field and get a sample of the
+ * first value.
+ */
+async function checkEventSelector(
+  page: ScrapePage,
+  eventSelector: string,
+  selector: FieldSelectorConfig,
+  options?: FieldOptions,
+) {
+  const values = (
+    await extractEventFields(
+      page,
+      eventSelector,
+      { value: selector },
+      { value: options },
+    )
+  )
+    .map(({ value }) => value)
+    .filter((value) => value != null);
+  return { count: values.length, sample: values[0] };
+}
+
+/**
+ * Load a page and wait for the selector to show up. Returns an error message if
+ * the page couldn't be loaded or the selector never matched.
+ */
+async function loadPage(
+  page: ScrapePage,
+  url: string,
+  selector: string,
+  timeout: number,
+) {
+  try {
+    await page.goto(url, { waitUntil: "networkidle2", timeout });
+  } catch (e) {
+    return `Unable to load ${url}: ${e}`;
+  }
+  try {
+    await page.waitForSelector(selector, { timeout });
+  } catch (e) {
+    return `Timed out waiting for ${selector}`;
+  }
+  return undefined;
+}
+
+/**
+ * Visit a detail page linked from the event list for each description selector
+ * domain and check the description, lineup and artist description selectors.
+ */
+async function checkDescriptionSelectors(
+  page: ScrapePage,
+  site: TwoPageWebsiteConfig,
+  detailLinks: string[],
+  timeout: number,
+) {
+  const checks: SelectorCheck[] = [];
+
+  for (const content of site.selectors.description) {
+    const { domain } = content;
+    const link = detailLinks.find((l) =>
+      findDescriptionSelector([content], [l]),
+    );
+    if (!link) {
+      checks.push(
+        createSkippedCheck(
+          site,
+          `description (${domain})`,
+          content.description,
+          "No events link to this domain",
+        ),
+      );
+      continue;
+    }
+
+    const error = await loadPage(page, link, content.description, timeout);
+    checks.push(
+      createCheck(
+        site,
+        `description (${domain})`,
+        content.description,
+        await checkPageSelector(page, content.description),
+        true,
+        error ?? link,
+      ),
+    );
+    if (!content.lineup) continue;
+
+    const lineup = await checkPageSelector(page, content.lineup, "href");
+    checks.push(
+      createCheck(site, `lineup (${domain})`, content.lineup, lineup, false),
+    );
+    if (!content.artistDescription) continue;
+
+    if (!lineup.sample) {
+      checks.push(
+        createSkippedCheck(
+          site,
+          `artistDescription (${domain})`,
+          content.artistDescription,
+          "No lineup links found",
+        ),
+      );
+      continue;
+    }
+
+    const artistLink = new URL(lineup.sample, page.url()).toString();
+    const artistError = await loadPage(
+      page,
+      artistLink,
+      content.artistDescription,
+      timeout,
+    );
+    checks.push(
+      createCheck(
+        site,
+        `artistDescription (${domain})`,
+        content.artistDescription,
+        await checkPageSelector(page, content.artistDescription),
+        false,
+        artistError ?? artistLink,
+      ),
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Load the website and check how many elements match each of its selectors.
+ * Structured data sites also check that the page has schema.org events. Pages
+ * are read from the cache first when one is given.
+ */
+export async function validateSite(
+  browser: Browser | undefined,
+  site: WebsiteConfig,
+  timeout: number,
+  cache?: PageCache,
+) {
+  const { selectors } = site;
+  const checks: SelectorCheck[] = [];
+  const page = await openSitePage(browser, site, timeout, cache);
+
+  try {
+    const error = await loadPage(
+      page,
+      site.url,
+      selectors?.event ?? "body",
+      timeout,
+    );
+    if (site.structuredData) {
+      const structured = await loadStructuredEvents(page);
+      checks.push(
+        createCheck(
+          site,
+          "structuredData",
+          "schema.org Event",
+          { count: structured.length, sample: structured[0]?.name },
+          // The selectors are the fallback when there's no structured data.
+          !selectors,
+          error ?? "No JSON-LD or microdata events found",
+        ),
+      );
+    }
+    if (!selectors) return checks;
+
+    const events = await checkPageSelector(page, selectors.event);
+    checks.push(
+      createCheck(
+        site,
+        "event",
+        selectors.event,
+        { count: events.count },
+        true,
+        error,
+      ),
+    );
+    if (!events.count) return checks;
+
+    const fields: [string, FieldSelectorConfig, boolean, FieldOptions?][] = [
+      ["name", selectors.name, true],
+      ["date", selectors.date, true],
+    ];
+    if ("detailLink" in selectors) {
+      fields.push([
+        "detailLink",
+        selectors.detailLink,
+        true,
+        { attribute: "href" },
+      ]);
+    }
+    for (const [field, selector, required, options] of fields) {
+      const result = await checkEventSelector(
+        page,
+        selectors.event,
+        selector,
+        options,
+      );
+      const check = createCheck(
+        site,
+        field,
+        describeFieldSelector(selector),
+        result,
+        required,
+      );
+      // Some events may legitimately be missing a field but it's worth
+      // calling out in case the selector is too specific.
+      if (result.count && result.count < events.count) {
+        check.status = "warn";
+        check.note = `Only ${result.count} of ${events.count} events matched`;
+      }
+      checks.push(check);
+    }
+
+    if (selectors.loadMoreLink) {
+      checks.push(
+        createCheck(
+          site,
+          "loadMoreLink",
+          selectors.loadMoreLink,
+          await checkPageSelector(page, selectors.loadMoreLink),
+          false,
+        ),
+      );
+    }
+
+    if (selectors.nextPageLink) {
+      checks.push(
+        createCheck(
+          site,
+          "nextPageLink",
+          selectors.nextPageLink,
+          await checkPageSelector(page, selectors.nextPageLink, "href"),
+          false,
+        ),
+      );
+    }
+
+    if (isTwoPageWebsiteConfig(site)) {
+      const detailLinks = (
+        await extractEventFields(
+          page,
+          selectors.event,
+          { link: site.selectors.detailLink },
+          { link: { attribute: "href" } },
+        )
+      )
+        .map(({ link }) => link)
+        .filter((link): link is string => !!link);
+      checks.push(
+        ...(await checkDescriptionSelectors(
+          page,
+          site,
+          detailLinks
+            .map((href) => resolveUrl(href, page.url()))
+            .filter((link): link is string => !!link),
+          timeout,
+        )),
+      );
+    }
+  } catch (e) {
+    checks.push({
+      site: site.url,
+      field: "page",
+      selector: "",
+      count: 0,
+      status: "fail",
+      note: String(e),
+    });
+  } finally {
+    await page.close();
+  }
+
+  return checks;
+}
+
+function formatSample(sample: Nilable<string>) {
+  const text = normalizeWhitespace(sample);
+  return text.length > SAMPLE_LENGTH
+    ? `${text.slice(0, SAMPLE_LENGTH - 3)}...`
+    : text;
+}
+
+const STATUS_COLORS: Record<CheckStatus, (text: string) => string> = {
+  pass: chalk.green,
+  warn: chalk.yellow,
+  fail: chalk.red,
+  skip: chalk.gray,
+};
+
+/**
+ * Console print the selector checks as a table grouped by website.
+ */
+export function printValidationReport(checks: SelectorCheck[]) {
+  const headers = ["Status", "Field", "Selector", "Matches", "Sample / Note"];
+  const rows = checks.map((c) => [
+    c.status.toUpperCase(),
+    c.field,
+    c.selector,
+    String(c.count),
+    c.note && c.status !== "pass" ? c.note : formatSample(c.sample),
+  ]);
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length)),
+  );
+  // Don't pad the last column
+  widths[widths.length - 1] = 0;
+
+  const format = (row: string[], color = (text: string) => text) =>
+    row
+      .map((cell, i) => {
+        const padded = cell.padEnd(widths[i]);
+        return i === 0 ? color(padded) : padded;
+      })
+      .join("  ");
+
+  let site: string | undefined;
+  checks.forEach((check, i) => {
+    if (check.site !== site) {
+      site = check.site;
+      console.log(`\nWebsite: ${chalk.blue(site)}`);
+      console.log(chalk.bold(`  ${format(headers)}`));
+    }
+    console.log(`  ${format(rows[i], STATUS_COLORS[check.status])}`);
+  });
+
+  const failedSites = new Set(
+    checks.filter((c) => c.status === "fail").map((c) => c.site),
+  );
+  console.log("");
+  if (failedSites.size) {
+    spinner.fail(
+      `${chalk.red(failedSites.size)} of ${new Set(checks.map((c) => c.site)).size} sites have broken selectors`,
+    );
+  } else {
+    spinner.succeed("All selectors matched");
+  }
+  return failedSites.size === 0;
+}
+
+/**
+ * Check the selectors of each website config against the live website and
+ * report which ones no longer match. Returns whether all sites passed.
+ */
+export async function validate(
+  sites: WebsiteConfig[],
+  timeout = 10000,
+  debug = false,
+) {
+  const browser = sites.some(usesBrowser)
+    ? await launchBrowser(debug)
+    : undefined;
+  const checks: SelectorCheck[] = [];
+
+  try {
+    for (const site of sites) {
+      spinner.start(`Validating ${chalk.yellow(site.url)}`);
+      checks.push(...(await validateSite(browser, site, timeout)));
+      spinner.stop();
+    }
+  } finally {
+    await browser?.close();
+  }
+
+  return printValidationReport(checks);
+}
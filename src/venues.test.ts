@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatVenue, getVenueDetails } from "./venues";
+
+const URL = "https://www.venue.example.com/events";
+
+test("getVenueDetails prefers the configured booking contact", () => {
+  const venue = {
+    name: "The Venue",
+    neighborhood: "Downtown",
+    capacity: 250,
+    booking: {
+      name: "Sam",
+      email: "booking@venue.example.com",
+      formUrl: "https://venue.example.com/book",
+    },
+  };
+
+  const details = getVenueDetails(venue, URL, "Email us!");
+  assert.equal(
+    details.pitch,
+    "Sam <booking@venue.example.com> or https://venue.example.com/book",
+  );
+  assert.equal(formatVenue(details), "The Venue (Downtown, capacity 250)");
+});
+
+test("getVenueDetails falls back to the scraped booking text and the website", () => {
+  assert.equal(
+    getVenueDetails({}, URL, "  Booking:\n  bands@venue.example.com ").pitch,
+    "Booking: bands@venue.example.com",
+  );
+
+  const details = getVenueDetails(undefined, URL);
+  assert.equal(details.pitch, URL);
+  assert.equal(formatVenue(details), "venue.example.com");
+});
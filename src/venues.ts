@@ -0,0 +1,110 @@
+import type { BandConfig, Nilable, Venue } from "./types";
+import { getDomain } from "./scheduler";
+import { normalizeWhitespace } from "./util";
+
+/**
+ * Scraped booking text longer than this is shortened in the output.
+ */
+const MAX_BOOKING_LENGTH = 200;
+
+/**
+ * Everything we know about who to pitch at a venue, flattened for output.
+ */
+export interface VenueDetails {
+  /**
+   * The display name of the venue (or the website domain).
+   */
+  venue: string;
+  neighborhood?: string;
+  address?: string;
+  capacity?: number;
+  contact?: string;
+  email?: string;
+  formUrl?: string;
+  /**
+   * The booking information scraped from the venue website.
+   */
+  booking?: string;
+  /**
+   * A one line summary of who to pitch.
+   */
+  pitch: string;
+}
+
+/**
+ * Find the venue config for the website the events were found on.
+ */
+export function getVenue(
+  band: Pick<BandConfig, "websiteConfigs">,
+  siteUrl: string,
+): Venue | undefined {
+  return band.websiteConfigs.find((c) => c.url === siteUrl)?.venue;
+}
+
+function shorten(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Collect the venue and booking details for a website. The scraped `booking`
+ * text is only used in the pitch when no contact is configured.
+ */
+export function getVenueDetails(
+  venue: Nilable<Venue>,
+  siteUrl: string,
+  scraped?: Nilable<string>,
+): VenueDetails {
+  const { booking: contact = {} } = venue ?? {};
+  const booking = scraped
+    ? shorten(normalizeWhitespace(scraped), MAX_BOOKING_LENGTH)
+    : undefined;
+
+  const email = contact.email
+    ? contact.name
+      ? `${contact.name} <${contact.email}>`
+      : contact.email
+    : contact.name;
+  const pitch =
+    [email, contact.formUrl].filter(Boolean).join(" or ") || booking || siteUrl;
+
+  return {
+    venue: venue?.name ?? getDomain(siteUrl),
+    neighborhood: venue?.neighborhood,
+    address: venue?.address,
+    capacity: venue?.capacity,
+    contact: contact.name,
+    email: contact.email,
+    formUrl: contact.formUrl,
+    booking,
+    pitch,
+  };
+}
+
+/**
+ * Get the venue details for the website the events were found on.
+ */
+export function getBandVenueDetails(
+  band: Pick<BandConfig, "websiteConfigs">,
+  site: { url: string; booking?: string },
+) {
+  return getVenueDetails(getVenue(band, site.url), site.url, site.booking);
+}
+
+/**
+ * Format the venue name with its neighborhood, address and capacity.
+ */
+export function formatVenue(
+  details: Pick<
+    VenueDetails,
+    "venue" | "neighborhood" | "address" | "capacity"
+  >,
+) {
+  const location = [
+    details.neighborhood,
+    details.address,
+    details.capacity != null ? `capacity ${details.capacity}` : undefined,
+  ].filter(Boolean);
+  return location.length
+    ? `${details.venue} (${location.join(", ")})`
+    : details.venue;
+}